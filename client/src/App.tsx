@@ -5,13 +5,17 @@ import "@fontsource/inter";
 
 import Globe from "./components/Globe";
 import GameUI from "./components/GameUI";
+import MatchStatus from "./components/MatchStatus";
+import ErrorNotice from "./components/ErrorNotice";
+import NukeWarning from "./components/NukeWarning";
 import { BuildingOptions } from "./components/BuildingOptions";
+import { WeaponOptions } from "./components/WeaponOptions";
 import { useGameState } from "./lib/stores/useGameState";
 import { useMultiplayer } from "./lib/stores/useMultiplayer";
 
 function App() {
   const { connect, isConnected } = useMultiplayer();
-  const { buildingOptions, setBuildingOptions } = useGameState();
+  const { buildingOptions, setBuildingOptions, weaponOptions, setWeaponOptions, setArmedLaunch } = useGameState();
   const { buildStructure } = useMultiplayer();
 
   useEffect(() => {
@@ -64,12 +68,15 @@ function App() {
 
       {/* Game UI Overlay */}
       <GameUI />
+      <MatchStatus />
+      <ErrorNotice />
+      <NukeWarning />
       
       {/* Building Options Popup */}
       {buildingOptions && (
         <BuildingOptions
           tileId={buildingOptions.tileId}
-          canBuildPort={buildingOptions.canBuildPort}
+          coastal={buildingOptions.coastal}
           onBuild={(structureType) => {
             buildStructure(buildingOptions.tileId, structureType);
             setBuildingOptions(null);
@@ -79,6 +86,19 @@ function App() {
         />
       )}
       
+      {/* Weapon picker for a silo */}
+      {weaponOptions && (
+        <WeaponOptions
+          siloTileId={weaponOptions.siloTileId}
+          onSelect={(weapon) => {
+            setArmedLaunch({ siloTileId: weaponOptions.siloTileId, weapon });
+            setWeaponOptions(null);
+          }}
+          onClose={() => setWeaponOptions(null)}
+          position={weaponOptions.position}
+        />
+      )}
+      
       {/* Connection Status */}
       {!isConnected && (
         <div style={{
@@ -1,24 +1,53 @@
 import React from 'react';
 import { Button } from './ui/button';
-import { Building2, Anchor, Zap } from 'lucide-react';
+import { Building2, Anchor, Zap, Shield, type LucideIcon } from 'lucide-react';
+import { STRUCTURE_TYPES, StructureType } from '@shared/schema';
+import { BUILDINGS, getBuildError } from '@shared/buildings';
+import { useGameState } from '../lib/stores/useGameState';
 
 interface BuildingOptionsProps {
   tileId: number;
-  canBuildPort: boolean;
-  onBuild: (structureType: 'city' | 'port' | 'missile_silo') => void;
+  coastal: boolean;
+  onBuild: (structureType: StructureType) => void;
   onClose: () => void;
   position: { x: number; y: number };
 }
 
+const BUILDING_ICONS: Partial<Record<StructureType, LucideIcon>> = {
+  city: Building2,
+  port: Anchor,
+  missile_silo: Zap,
+  sam: Shield
+};
+
 export const BuildingOptions: React.FC<BuildingOptionsProps> = ({
   tileId,
-  canBuildPort,
+  coastal,
   onBuild,
   onClose,
   position
 }) => {
+  const { tiles, currentPlayer } = useGameState();
+  const tile = tiles.get(tileId);
+
+  // Same checks the server runs, so disabled options explain themselves
+  const built: Partial<Record<StructureType, number>> = {};
+  const planned: Partial<Record<StructureType, number>> = {};
+  tiles.forEach(owned => {
+    if (owned.ownerId !== currentPlayer?.id) return;
+    if (owned.structureType) {
+      built[owned.structureType] = (built[owned.structureType] ?? 0) + 1;
+      planned[owned.structureType] = (planned[owned.structureType] ?? 0) + 1;
+    }
+    if (owned.construction) {
+      planned[owned.construction] = (planned[owned.construction] ?? 0) + 1;
+    }
+  });
+
+  const buildable = STRUCTURE_TYPES.filter(type => BUILDINGS[type].buildable);
+
   return (
-    <div 
+    <div
       className="fixed z-50 bg-gray-900 border border-gray-600 rounded-lg p-4 shadow-lg"
       style={{
         left: `${position.x}px`,
@@ -27,42 +56,46 @@ export const BuildingOptions: React.FC<BuildingOptionsProps> = ({
       }}
     >
       <div className="text-white text-sm font-semibold mb-3">
-        Build Structure (100 gold)
+        Build Structure
       </div>
-      
+
       <div className="flex flex-col gap-2">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onBuild('city')}
-          className="flex items-center gap-2 text-left justify-start"
-        >
-          <Building2 className="w-4 h-4" />
-          City
-        </Button>
-        
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onBuild('port')}
-          disabled={!canBuildPort}
-          className="flex items-center gap-2 text-left justify-start"
-        >
-          <Anchor className="w-4 h-4" />
-          Port {!canBuildPort && "(Need water nearby)"}
-        </Button>
-        
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onBuild('missile_silo')}
-          className="flex items-center gap-2 text-left justify-start"
-        >
-          <Zap className="w-4 h-4" />
-          Missile Silo
-        </Button>
+        {buildable.map(type => {
+          const building = BUILDINGS[type];
+          const Icon = BUILDING_ICONS[type] ?? Building2;
+          const error = tile && currentPlayer
+            ? getBuildError(type, {
+                terrainType: tile.terrainType,
+                coastal,
+                occupied: !!tile.structureType || !!tile.construction,
+                gold: currentPlayer.gold,
+                built,
+                planned
+              })
+            : 'Tile not loaded';
+
+          return (
+            <Button
+              key={type}
+              variant="outline"
+              size="sm"
+              onClick={() => onBuild(type)}
+              disabled={!!error}
+              title={building.description}
+              className="flex items-center gap-2 text-left justify-start h-auto py-2"
+            >
+              <Icon className="w-4 h-4 shrink-0" />
+              <div className="flex flex-col">
+                <span>
+                  {building.name} · {building.cost} gold · {building.buildSeconds}s
+                </span>
+                {error && <span className="text-xs text-red-400">{error}</span>}
+              </div>
+            </Button>
+          );
+        })}
       </div>
-      
+
       <Button
         variant="ghost"
         size="sm"
@@ -73,4 +106,4 @@ export const BuildingOptions: React.FC<BuildingOptionsProps> = ({
       </Button>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+import { useGameState } from "../lib/stores/useGameState";
+
+const ERROR_DISPLAY_MS = 4000;
+
+// Server rejections, e.g. a capital placed too close to another
+const ErrorNotice = () => {
+  const { lastError, setLastError } = useGameState();
+  
+  useEffect(() => {
+    if (!lastError) return;
+    const timeout = setTimeout(() => setLastError(null), ERROR_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [lastError, setLastError]);
+  
+  if (!lastError) {
+    return null;
+  }
+  
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '100px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      background: 'rgba(180, 30, 30, 0.9)',
+      color: 'white',
+      padding: '6px 16px',
+      borderRadius: '4px',
+      fontSize: '13px'
+    }}>
+      {lastError.message}
+    </div>
+  );
+};
+
+export default ErrorNotice;
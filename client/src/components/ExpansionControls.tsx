@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { EXPANSION_TERRAIN_PREFERENCES, ExpansionFocus, ExpansionTerrainPreference, MAX_CLAIMS_PER_INTERVAL, Player } from "@shared/schema";
+import { useMultiplayer } from "../lib/stores/useMultiplayer";
+
+const COMPASS_BEARINGS: [string, number][] = [
+  ["North", 0], ["North-east", 45], ["East", 90], ["South-east", 135],
+  ["South", 180], ["South-west", 225], ["West", 270], ["North-west", 315]
+];
+
+const inputStyle: React.CSSProperties = {
+  padding: '2px 4px',
+  borderRadius: '4px',
+  border: '1px solid #555',
+  background: '#222',
+  color: 'white'
+};
+
+// Picks where automatic expansion heads, how many soldiers it may spend and
+// how fast it spends them.
+// Targeting a tile is done with alt+click on the globe.
+const ExpansionControls = ({ player }: { player: Player }) => {
+  const { setExpansionPolicy } = useMultiplayer();
+  const { focus, soldierBudget, claimsPerInterval } = player.expansion;
+  const [budget, setBudget] = useState(soldierBudget);
+  const [choosingTarget, setChoosingTarget] = useState(false);
+
+  // Follow the server as the budget gets spent
+  useEffect(() => setBudget(soldierBudget), [soldierBudget]);
+  useEffect(() => setChoosingTarget(false), [focus.type]);
+
+  const setFocus = (next: ExpansionFocus) => setExpansionPolicy({ ...player.expansion, focus: next });
+
+  const handleFocusType = (type: ExpansionFocus['type']) => {
+    setChoosingTarget(false);
+    switch (type) {
+      case 'direction':
+        setFocus({ type, bearing: 0 });
+        break;
+      case 'terrain':
+        setFocus({ type, terrain: 'coast' });
+        break;
+      case 'tile':
+        // Waits for an alt+click; until then growth keeps its current focus
+        setChoosingTarget(focus.type !== 'tile');
+        break;
+      default:
+        setFocus({ type: 'random' });
+    }
+  };
+
+  return (
+    <div style={{ borderTop: '1px solid #444', paddingTop: '10px', marginTop: '10px', fontSize: '12px' }}>
+      <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Expansion</h3>
+      <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '6px', alignItems: 'center' }}>
+        <label htmlFor="expansion-focus">Focus</label>
+        <select
+          id="expansion-focus"
+          value={choosingTarget ? 'tile' : focus.type}
+          onChange={(e) => handleFocusType(e.target.value as ExpansionFocus['type'])}
+          style={inputStyle}
+        >
+          <option value="random">Anywhere</option>
+          <option value="tile">Towards a tile</option>
+          <option value="direction">Direction</option>
+          <option value="terrain">Terrain</option>
+        </select>
+
+        {(choosingTarget || focus.type === 'tile') && (
+          <>
+            <span>Target</span>
+            <span>{focus.type === 'tile' ? `Tile ${focus.tileId}` : 'Alt+click a tile'}</span>
+          </>
+        )}
+
+        {focus.type === 'direction' && (
+          <>
+            <label htmlFor="expansion-bearing">Heading</label>
+            <select
+              id="expansion-bearing"
+              value={focus.bearing}
+              onChange={(e) => setFocus({ type: 'direction', bearing: Number(e.target.value) })}
+              style={inputStyle}
+            >
+              {COMPASS_BEARINGS.map(([label, bearing]) => (
+                <option key={bearing} value={bearing}>{label}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {focus.type === 'terrain' && (
+          <>
+            <label htmlFor="expansion-terrain">Prefer</label>
+            <select
+              id="expansion-terrain"
+              value={focus.terrain}
+              onChange={(e) => setFocus({ type: 'terrain', terrain: e.target.value as ExpansionTerrainPreference })}
+              style={inputStyle}
+            >
+              {EXPANSION_TERRAIN_PREFERENCES.map(terrain => (
+                <option key={terrain} value={terrain}>{terrain}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        <label htmlFor="expansion-budget">⚔️ Budget</label>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <input
+            id="expansion-budget"
+            type="number"
+            min={0}
+            step={10}
+            value={budget}
+            onChange={(e) => setBudget(Math.max(0, parseInt(e.target.value) || 0))}
+            style={{ ...inputStyle, width: '70px' }}
+          />
+          <button
+            onClick={() => setExpansionPolicy({ ...player.expansion, soldierBudget: budget })}
+            disabled={budget === soldierBudget}
+            style={{ ...inputStyle, cursor: 'pointer' }}
+          >
+            Set
+          </button>
+        </div>
+
+        <label htmlFor="expansion-rate">Claims/interval</label>
+        <select
+          id="expansion-rate"
+          value={claimsPerInterval}
+          onChange={(e) => setExpansionPolicy({ ...player.expansion, claimsPerInterval: Number(e.target.value) })}
+          style={inputStyle}
+        >
+          {Array.from({ length: MAX_CLAIMS_PER_INTERVAL + 1 }, (_, rate) => (
+            <option key={rate} value={rate}>{rate}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default ExpansionControls;
@@ -1,6 +1,12 @@
+import { SOLDIER_TRAINING_COST, SOLDIER_UPKEEP_PER_SECOND, WORKER_GOLD_PER_SECOND } from "@shared/schema";
+import { TERRAIN_RULES, getPopulationCap } from "@shared/terrain";
+import { BUILDINGS } from "@shared/buildings";
+import { NUKE_RULES, WEAPONS } from "@shared/missiles";
 import { useGameState } from "../lib/stores/useGameState";
 import { useMultiplayer } from "../lib/stores/useMultiplayer";
 import TileInfo from "./TileInfo";
+import ExpansionControls from "./ExpansionControls";
+import Lobby from "./Lobby";
 
 const GameUI = () => {
   const { 
@@ -8,12 +14,12 @@ const GameUI = () => {
     players, 
     hoveredTile, 
     tiles,
+    armedLaunch,
     gamePhase 
   } = useGameState();
   
   const { 
     isConnected, 
-    spawnPlayer,
     adjustWorkerRatio 
   } = useMultiplayer();
 
@@ -37,39 +43,7 @@ const GameUI = () => {
   }
 
   if (gamePhase === 'waiting' && !currentPlayer) {
-    return (
-      <div style={{
-        position: 'absolute',
-        top: '50%',
-        left: '50%',
-        transform: 'translate(-50%, -50%)',
-        background: 'rgba(0, 0, 0, 0.9)',
-        color: 'white',
-        padding: '30px',
-        borderRadius: '8px',
-        textAlign: 'center',
-        maxWidth: '400px'
-      }}>
-        <h1 style={{ margin: '0 0 20px 0', fontSize: '28px' }}>🌍 OpenFront.io</h1>
-        <p style={{ margin: '0 0 20px 0', fontSize: '16px' }}>
-          A global strategy game where you manage population, build cities, and dominate the world.
-        </p>
-        <button
-          onClick={spawnPlayer}
-          style={{
-            padding: '12px 24px',
-            fontSize: '16px',
-            backgroundColor: '#4CAF50',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: 'pointer'
-          }}
-        >
-          Join Game
-        </button>
-      </div>
-    );
+    return <Lobby />;
   }
 
   if (!currentPlayer) {
@@ -77,7 +51,20 @@ const GameUI = () => {
   }
 
   const totalPlayers = players.size;
-  const ownedTiles = Array.from(tiles.values()).filter(t => t.ownerId === currentPlayer.id).length;
+  const ownedTileList = Array.from(tiles.values()).filter(t => t.ownerId === currentPlayer.id);
+  const ownedTiles = ownedTileList.length;
+  const populationCap = ownedTileList.reduce((sum, tile) => sum + getPopulationCap(tile.terrainType, tile.structureType, tile.disabled), 0);
+  
+  // Mirrors the server's economy: workers earn by the land they live on,
+  // soldiers cost upkeep, and the pool trains towards the slider over time
+  const workerShare = currentPlayer.population > 0 ? currentPlayer.workers / currentPlayer.population : 0;
+  const income = ownedTileList.reduce((sum, tile) => {
+    const buildingYield = tile.structureType && !tile.disabled ? BUILDINGS[tile.structureType].effects.goldYield ?? 1 : 1;
+    return sum + tile.population * workerShare * WORKER_GOLD_PER_SECOND * TERRAIN_RULES[tile.terrainType].goldYield * buildingYield;
+  }, 0);
+  const upkeep = currentPlayer.soldiers * SOLDIER_UPKEEP_PER_SECOND;
+  const targetSoldiers = Math.floor(currentPlayer.population * (1 - currentPlayer.workerRatio));
+  const soldiers = Math.floor(currentPlayer.soldiers);
 
   return (
     <>
@@ -101,6 +88,8 @@ const GameUI = () => {
           <div>💰 Gold: <strong>{currentPlayer.gold.toFixed(0)}</strong></div>
           <div>👥 Population: <strong>{currentPlayer.population.toFixed(0)}</strong></div>
           <div>🏠 Territory: <strong>{ownedTiles}</strong></div>
+          <div>☢️ Warheads: <strong>{currentPlayer.nukeTokens}/{NUKE_RULES.maxTokens}</strong></div>
+          {armedLaunch && <div>🎯 Armed: <strong>{WEAPONS[armedLaunch.weapon].name}</strong></div>}
         </div>
         <div style={{ display: 'flex', gap: '20px' }}>
           <div>🌍 Players: <strong>{totalPlayers}</strong></div>
@@ -129,8 +118,8 @@ const GameUI = () => {
         
         <div style={{ marginBottom: '10px' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
-            <span>⚔️ Soldiers: {Math.floor(currentPlayer.population * currentPlayer.workerRatio)}</span>
-            <span>🔨 Workers: {Math.floor(currentPlayer.population * (1 - currentPlayer.workerRatio))}</span>
+            <span>⚔️ Soldiers: {soldiers}</span>
+            <span>🔨 Workers: {Math.floor(currentPlayer.workers)}</span>
           </div>
           
           <input
@@ -150,9 +139,18 @@ const GameUI = () => {
         </div>
 
         <div style={{ fontSize: '12px', opacity: 0.8 }}>
-          <div>💰 Gold/sec: +{(currentPlayer.population * (1 - currentPlayer.workerRatio) * 0.1).toFixed(1)}</div>
-          <div>👥 Pop Growth: +{(ownedTiles * 0.01).toFixed(2)}/sec</div>
+          {soldiers !== targetSoldiers && (
+            <div>
+              🎖️ {soldiers < targetSoldiers ? 'Training' : 'Standing down'} towards {targetSoldiers} soldiers
+              {soldiers < targetSoldiers && ` (${SOLDIER_TRAINING_COST} gold each)`}
+            </div>
+          )}
+          <div>💰 Income: +{income.toFixed(1)}/sec</div>
+          <div>⚔️ Upkeep: -{upkeep.toFixed(1)}/sec</div>
+          <div>👥 Capacity: {currentPlayer.population.toFixed(0)} / {populationCap}</div>
         </div>
+
+        <ExpansionControls player={currentPlayer} />
       </div>
 
       {/* Tile Information Panel */}
@@ -174,6 +172,11 @@ const GameUI = () => {
         <div>🖱️ Drag to rotate globe</div>
         <div>🔍 Scroll to zoom</div>
         <div>🎯 Click tiles to expand</div>
+        <div>⚔️ Click enemy tiles to attack</div>
+        <div>🎛️ Click your silo to pick a weapon</div>
+        <div>🚀 Shift+click to fire it ({WEAPONS[armedLaunch?.weapon ?? 'conventional'].name})</div>
+        <div>🛡️ SAM sites shoot down missiles within {BUILDINGS.sam.effects.interception?.radiusTiles} tiles</div>
+        <div>🧭 Alt+click to steer expansion</div>
         <div>⚖️ Balance workers vs soldiers</div>
       </div>
     </>
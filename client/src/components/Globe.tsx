@@ -1,31 +1,42 @@
 import { useRef, useMemo, useState, useCallback } from "react";
-import { useFrame, useThree } from "@react-three/fiber";
+import { useFrame, useThree, ThreeEvent } from "@react-three/fiber";
 import * as THREE from "three";
 import { GlobeGeometry } from "../lib/geometry/GlobeGeometry";
-import { useGameState } from "../lib/stores/useGameState";
+import { useGameState, Interception, INTERCEPTION_EFFECT_MS } from "../lib/stores/useGameState";
 import { useMultiplayer } from "../lib/stores/useMultiplayer";
 import { Tile, Player } from "../lib/types/game";
 
+// The globe can only be generated once the server has told us the world seed
 const Globe = () => {
+  const worldSeed = useGameState((state) => state.worldSeed);
+  
+  if (worldSeed === null) {
+    return null;
+  }
+  
+  return <GlobeWorld key={worldSeed} seed={worldSeed} />;
+};
+
+const GlobeWorld = ({ seed }: { seed: number }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const borderRef = useRef<THREE.LineSegments>(null);
   const { camera, raycaster, pointer } = useThree();
   
-  const { tiles, players, currentPlayer, missiles, hoveredTile, setHoveredTile } = useGameState();
-  const { selectTile, buildStructure, launchMissile } = useMultiplayer();
+  const { tiles, players, currentPlayer, missiles, nukeWarnings, interceptions, armedLaunch, hoveredTile, setHoveredTile, match } = useGameState();
+  const { selectTile, attackTile, buildStructure, launchMissile, chooseSpawn, setExpansionPolicy } = useMultiplayer();
   
   const [isHovering, setIsHovering] = useState(false);
 
 
-  // Generate globe geometry once
+  // Generate globe geometry once per world
   const { geometry, borderGeometry, tileData } = useMemo(() => {
-    const globeGeom = new GlobeGeometry();
+    const globeGeom = new GlobeGeometry(seed);
     return {
       geometry: globeGeom.getGeometry(),
       borderGeometry: globeGeom.getBorderGeometry(),
       tileData: globeGeom.getTileData()
     };
-  }, []);
+  }, [seed]);
 
   // Create color attribute for tiles based on ownership
   const colorAttribute = useMemo(() => {
@@ -61,6 +72,11 @@ const Globe = () => {
         }
       }
       
+      // Fallout darkens the tile towards a sickly green
+      if (gameStateTile?.radiation) {
+        color.lerp(new THREE.Color(0x4d5d1a), gameStateTile.radiation * 0.8);
+      }
+      
       // Color all vertices of this tile
       for (let i = 0; i < tile.vertices.length; i++) {
         const vertexIndex = tile.startVertex + i;
@@ -109,39 +125,63 @@ const Globe = () => {
     }
   }, [camera, raycaster, pointer, tileData, hoveredTile, setHoveredTile]);
 
-  const handleClick = useCallback(() => {
+  const handleClick = useCallback((event: ThreeEvent<MouseEvent>) => {
     if (hoveredTile && currentPlayer) {
       const gameStateTile = tiles.get(hoveredTile.id);
       
-      // Find missile silos owned by current player
-      const missileSilos = Array.from(tiles.values()).filter(tile => 
-        tile.ownerId === currentPlayer.id && tile.structureType === 'missile_silo'
-      );
+      // During the spawn phase a click places (or moves) our capital
+      if (match?.phase === 'spawning') {
+        chooseSpawn(hoveredTile.id);
+        return;
+      }
       
-      // If there are missile silos and clicking on enemy/neutral tile, launch missile
-      if (missileSilos.length > 0 && (!gameStateTile?.ownerId || gameStateTile.ownerId !== currentPlayer.id)) {
-        // Use the first available missile silo
-        const silo = missileSilos[0];
-        launchMissile(silo.id, hoveredTile.id);
-        console.log(`Launching missile from silo at tile ${silo.id} to target ${hoveredTile.id}`);
+      // Alt-click steers automatic expansion towards the tile
+      if (event.nativeEvent.altKey) {
+        setExpansionPolicy({ ...currentPlayer.expansion, focus: { type: 'tile', tileId: hoveredTile.id } });
+        return;
+      }
+      
+      // Shift-click on enemy/neutral tile fires the weapon picked at a silo
+      if (event.nativeEvent.shiftKey && gameStateTile?.ownerId !== currentPlayer.id) {
+        const weapon = armedLaunch?.weapon ?? 'conventional';
+        // Find missile silos owned by current player
+        const missileSilos = Array.from(tiles.values()).filter(tile => 
+          tile.ownerId === currentPlayer.id && tile.structureType === 'missile_silo'
+        );
+        
+        if (missileSilos.length > 0) {
+          // Fire from the silo the weapon was picked at, else the closest one
+          const silo = missileSilos.find(candidate => candidate.id === armedLaunch?.siloTileId) ??
+            missileSilos.reduce((best, candidate) =>
+              tileData[candidate.id].center.distanceTo(hoveredTile.center) <
+              tileData[best.id].center.distanceTo(hoveredTile.center) ? candidate : best
+            );
+          launchMissile(silo.id, hoveredTile.id, weapon);
+        }
         return;
       }
       
       // If tile is unowned or we want to expand, try to claim it
       if (!gameStateTile?.ownerId) {
         selectTile(hoveredTile.id);
+      } else if (gameStateTile.ownerId === currentPlayer.id && gameStateTile.structureType === 'missile_silo') {
+        // Our own silo: pick what it fires next
+        useGameState.getState().setWeaponOptions({
+          siloTileId: hoveredTile.id,
+          position: { x: window.innerWidth / 2, y: window.innerHeight / 2 }
+        });
       } else if (gameStateTile.ownerId === currentPlayer.id) {
         // Show building options for owned tiles - use game state store
         useGameState.getState().setBuildingOptions({
           tileId: hoveredTile.id,
-          canBuildPort: true, // Will be determined by server
+          coastal: hoveredTile.neighbors.some(id => tileData[id]?.terrainType === 'water'),
           position: { x: window.innerWidth / 2, y: window.innerHeight / 2 }
         });
       } else {
-        console.log("Clicked enemy tile:", hoveredTile.id);
+        attackTile(hoveredTile.id);
       }
     }
-  }, [hoveredTile, currentPlayer, tiles, selectTile, launchMissile]);
+  }, [hoveredTile, currentPlayer, tiles, tileData, match, armedLaunch, selectTile, attackTile, launchMissile, chooseSpawn, setExpansionPolicy]);
 
   return (
     <group>
@@ -190,12 +230,15 @@ const Globe = () => {
       {/* Building indicators */}
       {tileData.map((tile) => {
         const gameStateTile = tiles.get(tile.id);
-        if (!gameStateTile?.structureType) return null;
+        // Buildings under construction show as a faded marker
+        const structureType = gameStateTile?.structureType ?? gameStateTile?.construction;
+        if (!structureType) return null;
+        const underConstruction = !gameStateTile?.structureType;
         
         let buildingColor = 0xffffff;
         let buildingSize = 0.008;
         
-        switch (gameStateTile.structureType) {
+        switch (structureType) {
           case 'city':
             buildingColor = 0xffd700; // Gold
             buildingSize = 0.012;
@@ -208,6 +251,19 @@ const Globe = () => {
             buildingColor = 0xff4444; // Red
             buildingSize = 0.008;
             break;
+          case 'hq':
+            buildingColor = 0xffffff; // White, the capital
+            buildingSize = 0.016;
+            break;
+          case 'sam':
+            buildingColor = 0x22d3ee; // Cyan
+            buildingSize = 0.008;
+            break;
+        }
+        
+        // EMP'd buildings go dark until they recover
+        if (gameStateTile?.disabled) {
+          buildingColor = 0x555555;
         }
         
         return (
@@ -215,12 +271,26 @@ const Globe = () => {
             <boxGeometry args={[buildingSize, buildingSize * 2, buildingSize]} />
             <meshBasicMaterial 
               color={buildingColor}
-              transparent={false}
+              transparent={underConstruction}
+              opacity={underConstruction ? 0.4 : 1}
             />
           </mesh>
         );
       })}
 
+      {/* Ground zero of every incoming nuke */}
+      {Array.from(nukeWarnings.values()).map((warning) => (
+        <mesh key={`nuke-target-${warning.missileId}`} position={tileData[warning.toTileId].center}>
+          <sphereGeometry args={[0.03, 16, 16]} />
+          <meshBasicMaterial color={0xff2222} transparent={true} opacity={0.5} />
+        </mesh>
+      ))}
+
+      {/* Missiles shot down in flight */}
+      {Array.from(interceptions.values()).map((interception) => (
+        <InterceptionFlash key={`interception-${interception.missileId}`} interception={interception} />
+      ))}
+
       {/* Missile trajectories */}
       {Array.from(missiles.values()).map((missile) => {
         if (!missile.trajectory || missile.trajectory.length === 0) return null;
@@ -246,4 +316,25 @@ const Globe = () => {
   );
 };
 
+// Expanding burst that fades out where a missile was shot down
+const InterceptionFlash = ({ interception }: { interception: Interception }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  
+  useFrame(() => {
+    const progress = Math.min(1, (Date.now() - interception.at) / INTERCEPTION_EFFECT_MS);
+    meshRef.current?.scale.setScalar(1 + progress * 4);
+    if (materialRef.current) {
+      materialRef.current.opacity = 1 - progress;
+    }
+  });
+  
+  return (
+    <mesh ref={meshRef} position={interception.position}>
+      <sphereGeometry args={[0.008, 12, 12]} />
+      <meshBasicMaterial ref={materialRef} color={0x22d3ee} transparent={true} opacity={1} />
+    </mesh>
+  );
+};
+
 export default Globe;
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { GAME_MODES, GameMode, RoomSettings, RoomSummary } from "@shared/schema";
+import { apiRequest } from "../lib/queryClient";
+import { getLocalStorage, setLocalStorage } from "../lib/utils";
+import { useMultiplayer } from "../lib/stores/useMultiplayer";
+
+const USERNAME_KEY = "username";
+const ROOM_LIST_REFRESH_MS = 5000;
+
+const MODE_LABELS: Record<GameMode, string> = {
+  classic: "Classic",
+  conquest: "Conquest (60% of land)",
+  last_standing: "Last standing",
+  timed: "Timed (15 min)"
+};
+
+const panelStyle: React.CSSProperties = {
+  background: 'rgba(0, 0, 0, 0.9)',
+  color: 'white',
+  padding: '20px',
+  borderRadius: '8px'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '4px',
+  border: '1px solid #555',
+  background: '#222',
+  color: 'white'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  backgroundColor: '#4CAF50',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+const Lobby = () => {
+  const { roomId, joinRoom, spawnPlayer } = useMultiplayer();
+  const [username, setUsername] = useState<string>(
+    () => getLocalStorage(USERNAME_KEY) ?? `Player_${Math.random().toString(36).substr(2, 6)}`
+  );
+  const [copied, setCopied] = useState(false);
+
+  // Create room form
+  const [mode, setMode] = useState<GameMode>('classic');
+  const [maxPlayers, setMaxPlayers] = useState(8);
+  const [seed, setSeed] = useState('');
+  const [isPrivate, setIsPrivate] = useState(true);
+
+  const { data: rooms = [] } = useQuery<RoomSummary[]>({
+    queryKey: ['/api/rooms'],
+    refetchInterval: ROOM_LIST_REFRESH_MS
+  });
+
+  const createRoom = useMutation({
+    mutationFn: async (settings: RoomSettings) => {
+      const res = await apiRequest('POST', '/api/rooms', settings);
+      return await res.json() as RoomSummary;
+    },
+    onSuccess: (room) => joinRoom(room.id)
+  });
+
+  const handleJoin = () => {
+    const name = username.trim();
+    if (!name) return;
+    setLocalStorage(USERNAME_KEY, name);
+    spawnPlayer(name);
+  };
+
+  const handleCreate = () => {
+    createRoom.mutate({
+      mode,
+      maxPlayers,
+      seed: seed.trim() ? Number(seed) : undefined,
+      isPrivate
+    });
+  };
+
+  const copyInviteLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      display: 'flex',
+      gap: '16px',
+      alignItems: 'flex-start',
+      maxWidth: '95vw'
+    }}>
+      {/* Join the current room */}
+      <div style={{ ...panelStyle, width: '320px', textAlign: 'center' }}>
+        <h1 style={{ margin: '0 0 12px 0', fontSize: '28px' }}>🌍 OpenFront.io</h1>
+        <p style={{ margin: '0 0 16px 0', fontSize: '14px', opacity: 0.8 }}>
+          A global strategy game where you manage population, build cities, and dominate the world.
+        </p>
+        <div style={{ marginBottom: '12px', fontSize: '13px' }}>
+          Room <strong>{roomId}</strong>
+          <button
+            onClick={copyInviteLink}
+            style={{ ...buttonStyle, backgroundColor: '#555', padding: '2px 8px', marginLeft: '8px', fontSize: '12px' }}
+          >
+            {copied ? 'Copied!' : 'Copy invite link'}
+          </button>
+        </div>
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          maxLength={32}
+          placeholder="Your name"
+          style={{ ...inputStyle, width: '100%', marginBottom: '12px', boxSizing: 'border-box' }}
+        />
+        <button onClick={handleJoin} style={{ ...buttonStyle, width: '100%', fontSize: '16px' }}>
+          Join Game
+        </button>
+      </div>
+
+      {/* Room browser */}
+      <div style={{ ...panelStyle, width: '420px' }}>
+        <h3 style={{ margin: '0 0 10px 0' }}>Open rooms</h3>
+        <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ opacity: 0.7, textAlign: 'left' }}>
+              <th>Room</th>
+              <th>Mode</th>
+              <th>Players</th>
+              <th>Phase</th>
+              <th>Seed</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rooms.map(room => (
+              <tr key={room.id}>
+                <td>{room.id}</td>
+                <td>{MODE_LABELS[room.mode]}</td>
+                <td>{room.players}/{room.maxPlayers}</td>
+                <td>{room.phase}</td>
+                <td>{room.seed}</td>
+                <td>
+                  {room.id === roomId ? (
+                    <span style={{ opacity: 0.6 }}>here</span>
+                  ) : (
+                    <button
+                      onClick={() => joinRoom(room.id)}
+                      style={{ ...buttonStyle, padding: '2px 8px', fontSize: '12px' }}
+                    >
+                      Join
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 style={{ margin: '20px 0 10px 0' }}>Create a room</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '8px', alignItems: 'center', fontSize: '13px' }}>
+          <label htmlFor="room-mode">Victory</label>
+          <select id="room-mode" value={mode} onChange={(e) => setMode(e.target.value as GameMode)} style={inputStyle}>
+            {GAME_MODES.map(gameMode => (
+              <option key={gameMode} value={gameMode}>{MODE_LABELS[gameMode]}</option>
+            ))}
+          </select>
+
+          <label htmlFor="room-max-players">Max players</label>
+          <input
+            id="room-max-players"
+            type="number"
+            min={2}
+            max={32}
+            value={maxPlayers}
+            onChange={(e) => setMaxPlayers(parseInt(e.target.value) || 2)}
+            style={inputStyle}
+          />
+
+          <label htmlFor="room-seed">Map seed</label>
+          <input
+            id="room-seed"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value.replace(/\D/g, ''))}
+            placeholder="Random"
+            style={inputStyle}
+          />
+
+          <label htmlFor="room-private">Private</label>
+          <input
+            id="room-private"
+            type="checkbox"
+            checked={isPrivate}
+            onChange={(e) => setIsPrivate(e.target.checked)}
+            style={{ justifySelf: 'start' }}
+          />
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={createRoom.isPending}
+          style={{ ...buttonStyle, marginTop: '12px', width: '100%' }}
+        >
+          {createRoom.isPending ? 'Creating...' : 'Create room'}
+        </button>
+        {createRoom.error && (
+          <p style={{ color: '#f44336', fontSize: '12px', margin: '8px 0 0 0' }}>
+            {createRoom.error.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Lobby;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { MatchEndReason } from "@shared/schema";
+import { useGameState } from "../lib/stores/useGameState";
+
+const END_REASON_TEXT: Record<MatchEndReason, string> = {
+  land_share: "conquered enough of the world",
+  last_standing: "was the last empire standing",
+  time_limit: "led when time ran out",
+  abandoned: "Everyone left the match"
+};
+
+// Seconds left until a local deadline, re-rendering once a second
+function useSecondsLeft(deadline: number | null): number | null {
+  const [now, setNow] = useState(Date.now());
+  
+  useEffect(() => {
+    if (deadline === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+  
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+const MatchStatus = () => {
+  const { match, phaseDeadline, matchResult, currentPlayer } = useGameState();
+  const secondsLeft = useSecondsLeft(phaseDeadline);
+  
+  if (!match) {
+    return null;
+  }
+  
+  if (match.phase === 'ended' && matchResult) {
+    const winner = matchResult.standings.find(standing => standing.playerId === matchResult.winnerId);
+    
+    return (
+      <div style={{
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        background: 'rgba(0, 0, 0, 0.9)',
+        color: 'white',
+        padding: '30px',
+        borderRadius: '8px',
+        minWidth: '320px',
+        textAlign: 'center'
+      }}>
+        <h2 style={{ margin: '0 0 10px 0' }}>
+          {winner?.playerId === currentPlayer?.id ? '🏆 Victory!' : 'Match over'}
+        </h2>
+        <p style={{ margin: '0 0 20px 0', opacity: 0.8 }}>
+          {winner ? `${winner.username} ${END_REASON_TEXT[matchResult.reason]}` : END_REASON_TEXT[matchResult.reason]}
+        </p>
+        
+        <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ opacity: 0.7 }}>
+              <th style={{ textAlign: 'left' }}>#</th>
+              <th style={{ textAlign: 'left' }}>Player</th>
+              <th style={{ textAlign: 'right' }}>Territory</th>
+              <th style={{ textAlign: 'right' }}>Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {matchResult.standings.map((standing, index) => (
+              <tr key={standing.playerId} style={{ fontWeight: standing.playerId === currentPlayer?.id ? 'bold' : 'normal' }}>
+                <td style={{ textAlign: 'left' }}>{index + 1}</td>
+                <td style={{ textAlign: 'left', color: standing.color }}>{standing.username}</td>
+                <td style={{ textAlign: 'right' }}>{standing.territory}</td>
+                <td style={{ textAlign: 'right' }}>{standing.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        
+        {secondsLeft !== null && (
+          <p style={{ margin: '20px 0 0 0', fontSize: '12px', opacity: 0.7 }}>
+            Next match in {secondsLeft}s
+          </p>
+        )}
+      </div>
+    );
+  }
+  
+  let text: string | null = null;
+  if (match.phase === 'lobby') {
+    text = secondsLeft === null ? '⏳ Waiting for players' : `⏳ Match starts in ${secondsLeft}s`;
+  } else if (match.phase === 'spawning') {
+    const placed = currentPlayer?.capitalTileId !== undefined;
+    text = currentPlayer
+      ? `📍 ${placed ? 'Capital placed, click to move it' : 'Click a land tile to place your capital'} (${secondsLeft ?? 0}s)`
+      : `📍 Players are placing their capitals (${secondsLeft ?? 0}s)`;
+  } else if (match.phase === 'playing' && secondsLeft !== null) {
+    text = `⏱️ ${formatSeconds(secondsLeft)} left`;
+  }
+  
+  if (!text) {
+    return null;
+  }
+  
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '60px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      background: 'rgba(0, 0, 0, 0.8)',
+      color: 'white',
+      padding: '6px 16px',
+      borderRadius: '16px',
+      fontSize: '14px'
+    }}>
+      {text}
+    </div>
+  );
+};
+
+export default MatchStatus;
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { useGameState } from "../lib/stores/useGameState";
+
+// Global alert for every nuke in flight, counting down to impact
+const NukeWarning = () => {
+  const { nukeWarnings, players, tiles, currentPlayer } = useGameState();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (nukeWarnings.size === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [nukeWarnings.size]);
+
+  if (nukeWarnings.size === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '140px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      background: 'rgba(120, 0, 0, 0.9)',
+      border: '2px solid #ff3b3b',
+      color: 'white',
+      padding: '8px 16px',
+      borderRadius: '6px',
+      fontSize: '14px',
+      textAlign: 'center'
+    }}>
+      {Array.from(nukeWarnings.values()).map(warning => {
+        const launcher = players.get(warning.playerId);
+        const targetOwnerId = tiles.get(warning.toTileId)?.ownerId;
+        const target = targetOwnerId === currentPlayer?.id
+          ? 'YOUR territory'
+          : players.get(targetOwnerId ?? '')?.username ?? `tile ${warning.toTileId}`;
+        const seconds = Math.max(0, Math.ceil((warning.impactsAt - now) / 1000));
+
+        return (
+          <div key={warning.missileId}>
+            ☢️ <strong>NUKE INBOUND</strong> from {launcher?.username ?? 'unknown'} on {target} in <strong>{seconds}s</strong>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NukeWarning;
@@ -1,5 +1,8 @@
 import { useGameState } from "../lib/stores/useGameState";
 import { TileData } from "../lib/geometry/GlobeGeometry";
+import { getExpansionCost } from "../lib/utils/tileUtils";
+import { TERRAIN_RULES, getPopulationCap } from "@shared/terrain";
+import { BUILDINGS } from "@shared/buildings";
 
 interface TileInfoProps {
   tile: TileData;
@@ -11,9 +14,12 @@ const TileInfo = ({ tile }: TileInfoProps) => {
   const gameStateTile = tiles.get(tile.id);
   const owner = gameStateTile?.ownerId ? players.get(gameStateTile.ownerId) : null;
   
-  const canExpand = currentPlayer && 
+  const terrain = TERRAIN_RULES[tile.terrainType];
+  const expansionCost = getExpansionCost(tile);
+  const soldiers = currentPlayer ? Math.floor(currentPlayer.soldiers) : 0;
+  const canExpand = currentPlayer && expansionCost !== undefined &&
     (!gameStateTile?.ownerId || gameStateTile.ownerId === currentPlayer.id) &&
-    currentPlayer.gold >= 100; // Base expansion cost
+    soldiers >= expansionCost;
 
   return (
     <div style={{
@@ -36,6 +42,19 @@ const TileInfo = ({ tile }: TileInfoProps) => {
         <strong>Type:</strong> {tile.type}
       </div>
       
+      <div style={{ marginBottom: '8px' }}>
+        <strong>Terrain:</strong> {tile.terrainType}
+      </div>
+      
+      {terrain.claimable && (
+        <div style={{ marginBottom: '8px', fontSize: '12px', opacity: 0.8 }}>
+          <div>🛡️ Defense: ×{terrain.defense.toFixed(1)}</div>
+          <div>👥 Capacity: {getPopulationCap(tile.terrainType, gameStateTile?.structureType, gameStateTile?.disabled)}</div>
+          <div>📈 Growth: {(terrain.growthRate * (1 - (gameStateTile?.radiation ?? 0)) * 100).toFixed(1)}%/s</div>
+          <div>💰 Gold yield: ×{terrain.goldYield.toFixed(1)}</div>
+        </div>
+      )}
+      
       <div style={{ marginBottom: '8px' }}>
         <strong>Position:</strong> ({tile.lat.toFixed(2)}°, {tile.lon.toFixed(2)}°)
       </div>
@@ -53,15 +72,21 @@ const TileInfo = ({ tile }: TileInfoProps) => {
         </div>
       )}
       
-      {gameStateTile?.hasCity && (
+      {gameStateTile?.structureType && (
         <div style={{ marginBottom: '8px', color: '#FFD700' }}>
-          🏙️ <strong>City</strong> - +Population Growth
+          🏛️ <strong>{BUILDINGS[gameStateTile.structureType].name}</strong> - {BUILDINGS[gameStateTile.structureType].description}
+        </div>
+      )}
+      
+      {gameStateTile?.disabled && (
+        <div style={{ marginBottom: '8px', color: '#9ca3af' }}>
+          ⚡ Knocked out by an EMP
         </div>
       )}
       
-      {gameStateTile?.hasPort && (
-        <div style={{ marginBottom: '8px', color: '#87CEEB' }}>
-          🚢 <strong>Port</strong> - Naval Operations
+      {gameStateTile?.construction && (
+        <div style={{ marginBottom: '8px', color: '#aaa' }}>
+          🏗️ <strong>{BUILDINGS[gameStateTile.construction].name}</strong> under construction
         </div>
       )}
       
@@ -79,13 +104,13 @@ const TileInfo = ({ tile }: TileInfoProps) => {
           borderRadius: '4px',
           border: '1px solid #4CAF50'
         }}>
-          💰 Cost: 100 Gold
+          ⚔️ Cost: {expansionCost} soldiers
           <br />
           <small>Click to expand territory</small>
         </div>
       )}
       
-      {!canExpand && !owner && currentPlayer && currentPlayer.gold < 100 && (
+      {!canExpand && !owner && currentPlayer && expansionCost !== undefined && (
         <div style={{ 
           marginTop: '10px', 
           padding: '8px', 
@@ -93,7 +118,7 @@ const TileInfo = ({ tile }: TileInfoProps) => {
           borderRadius: '4px',
           border: '1px solid #f44336'
         }}>
-          <small>Need 100 gold to expand</small>
+          <small>Need {expansionCost} soldiers to expand</small>
         </div>
       )}
     </div>
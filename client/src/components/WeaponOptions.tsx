@@ -0,0 +1,94 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Rocket, Radiation, Sparkles, ZapOff, Hammer, type LucideIcon } from 'lucide-react';
+import { WEAPON_TYPES, WeaponType } from '@shared/schema';
+import { WEAPONS } from '@shared/missiles';
+import { useGameState } from '../lib/stores/useGameState';
+
+interface WeaponOptionsProps {
+  siloTileId: number;
+  onSelect: (weapon: WeaponType) => void;
+  onClose: () => void;
+  position: { x: number; y: number };
+}
+
+const WEAPON_ICONS: Record<WeaponType, LucideIcon> = {
+  conventional: Rocket,
+  nuke: Radiation,
+  cluster: Sparkles,
+  emp: ZapOff,
+  bunker_buster: Hammer
+};
+
+export const WeaponOptions: React.FC<WeaponOptionsProps> = ({
+  siloTileId,
+  onSelect,
+  onClose,
+  position
+}) => {
+  const { tiles, currentPlayer, armedLaunch } = useGameState();
+  const silo = tiles.get(siloTileId);
+
+  // Silo cooldowns and magazines are only checked by the server at launch
+  const getError = (weapon: WeaponType) => {
+    const rules = WEAPONS[weapon];
+    if (!currentPlayer) return 'Not spawned';
+    if (silo?.disabled) return 'Silo is knocked out by an EMP';
+    if (rules.requiresNukeToken && currentPlayer.nukeTokens < 1) return 'Needs an enriched warhead';
+    if (currentPlayer.gold < rules.cost) return `Need ${rules.cost} gold`;
+    return undefined;
+  };
+
+  return (
+    <div
+      className="fixed z-50 bg-gray-900 border border-gray-600 rounded-lg p-4 shadow-lg"
+      style={{
+        left: `${position.x}px`,
+        top: `${position.y}px`,
+        transform: 'translate(-50%, -50%)'
+      }}
+    >
+      <div className="text-white text-sm font-semibold mb-3">
+        Arm Silo
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {WEAPON_TYPES.map(type => {
+          const rules = WEAPONS[type];
+          const Icon = WEAPON_ICONS[type];
+          const error = getError(type);
+          const armed = armedLaunch?.siloTileId === siloTileId && armedLaunch.weapon === type;
+
+          return (
+            <Button
+              key={type}
+              variant={armed ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => onSelect(type)}
+              disabled={!!error}
+              title={rules.description}
+              className="flex items-center gap-2 text-left justify-start h-auto py-2"
+            >
+              <Icon className="w-4 h-4 shrink-0" />
+              <div className="flex flex-col">
+                <span>
+                  {rules.name} · {rules.cost} gold · {rules.rangeTiles} tiles · {rules.cooldownSeconds}s cooldown
+                </span>
+                {error && <span className="text-xs text-red-400">{error}</span>}
+              </div>
+            </Button>
+          );
+        })}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onClose}
+        className="mt-2 w-full text-gray-400"
+      >
+        Cancel
+      </Button>
+    </div>
+  );
+};
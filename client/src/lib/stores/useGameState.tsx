@@ -1,9 +1,28 @@
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
 import { Player, GameTile, GamePhase } from "../types/game";
-import { Missile } from "../../shared/schema";
+import { MatchResult, MatchState, Missile, StateDelta, TICK_DURATION_MS, WeaponType } from "@shared/schema";
+import { ServerMessageOf } from "@shared/protocol";
 import { TileData } from "../geometry/GlobeGeometry";
 
+// An incoming nuke everyone has been warned about
+export interface NukeWarning {
+  missileId: string;
+  playerId: string;
+  toTileId: number;
+  impactsAt: number; // Local Date.now() of the expected impact
+}
+
+// A missile shot down in flight, shown as a brief flash
+export interface Interception {
+  missileId: string;
+  position: [number, number, number];
+  at: number; // Local Date.now() of the shootdown
+}
+
+// How long an interception flash stays on the globe
+export const INTERCEPTION_EFFECT_MS = 1500;
+
 interface GameState {
   // Game phase
   gamePhase: GamePhase;
@@ -13,20 +32,41 @@ interface GameState {
   currentPlayer: Player | null;
   
   // World state
+  worldSeed: number | null;
   tiles: Map<number, GameTile>;
   missiles: Map<string, Missile>;
+  nukeWarnings: Map<string, NukeWarning>;
+  interceptions: Map<string, Interception>;
   hoveredTile: TileData | null;
   
   // UI state
   buildingOptions: {
     tileId: number;
-    canBuildPort: boolean;
+    coastal: boolean; // Borders water, which some buildings need
     position: { x: number; y: number };
   } | null;
+  weaponOptions: {
+    siloTileId: number;
+    position: { x: number; y: number };
+  } | null;
+  
+  // Weapon picked at a silo; shift+click fires it from there
+  armedLaunch: { siloTileId: number; weapon: WeaponType } | null;
+  
+  // Latest rejection from the server, shown briefly to the player
+  lastError: { message: string; at: number } | null;
   
   // Game time
   gameTime: number;
   
+  // Server-driven match lifecycle
+  match: MatchState | null;
+  phaseDeadline: number | null; // Local Date.now() when the current phase ends
+  matchResult: MatchResult | null; // Set once the match has ended
+  
+  // Sequence number of the last applied state delta
+  stateSeq: number;
+  
   // Actions
   setGamePhase: (phase: GamePhase) => void;
   setCurrentPlayer: (player: Player | null) => void;
@@ -36,16 +76,27 @@ interface GameState {
   updateTile: (tileId: number, updates: Partial<GameTile>) => void;
   addMissile: (missile: Missile) => void;
   removeMissile: (missileId: string) => void;
+  addNukeWarning: (warning: ServerMessageOf<'nuke_warning'>['data']) => void;
+  interceptMissile: (interception: ServerMessageOf<'missile_intercepted'>['data']) => void;
   setHoveredTile: (tile: TileData | null) => void;
-  setBuildingOptions: (options: { tileId: number; canBuildPort: boolean; position: { x: number; y: number }; } | null) => void;
+  setBuildingOptions: (options: { tileId: number; coastal: boolean; position: { x: number; y: number }; } | null) => void;
+  setWeaponOptions: (options: { siloTileId: number; position: { x: number; y: number }; } | null) => void;
+  setArmedLaunch: (launch: { siloTileId: number; weapon: WeaponType } | null) => void;
   updateGameTime: (time: number) => void;
+  setLastError: (message: string | null) => void;
+  setMatch: (match: MatchState, tick: number) => void;
+  setMatchResult: (result: MatchResult | null) => void;
   
   // Bulk updates from server
   updateGameState: (state: {
+    seq: number;
     players: Player[];
     tiles: GameTile[];
+    missiles: Missile[];
+    seed: number;
     gameTime: number;
   }) => void;
+  applyStateDelta: (delta: StateDelta) => void;
 }
 
 export const useGameState = create<GameState>()(
@@ -53,11 +104,21 @@ export const useGameState = create<GameState>()(
     gamePhase: 'waiting',
     players: new Map(),
     currentPlayer: null,
+    worldSeed: null,
     tiles: new Map(),
     missiles: new Map(),
+    nukeWarnings: new Map(),
+    interceptions: new Map(),
     hoveredTile: null,
     buildingOptions: null,
+    weaponOptions: null,
+    armedLaunch: null,
+    lastError: null,
     gameTime: 0,
+    match: null,
+    phaseDeadline: null,
+    matchResult: null,
+    stateSeq: 0,
     
     setGamePhase: (phase) => set({ gamePhase: phase }),
     
@@ -124,16 +185,61 @@ export const useGameState = create<GameState>()(
     removeMissile: (missileId) => set((state) => {
       const newMissiles = new Map(state.missiles);
       newMissiles.delete(missileId);
-      return { missiles: newMissiles };
+      const newWarnings = new Map(state.nukeWarnings);
+      newWarnings.delete(missileId);
+      return { missiles: newMissiles, nukeWarnings: newWarnings };
+    }),
+    
+    addNukeWarning: ({ missileId, playerId, toTileId, impactTick, tick }) => set((state) => {
+      const newWarnings = new Map(state.nukeWarnings);
+      newWarnings.set(missileId, {
+        missileId,
+        playerId,
+        toTileId,
+        impactsAt: Date.now() + (impactTick - tick) * TICK_DURATION_MS
+      });
+      return { nukeWarnings: newWarnings };
     }),
     
+    interceptMissile: ({ missileId, position }) => {
+      get().removeMissile(missileId);
+      set((state) => {
+        const newInterceptions = new Map(state.interceptions);
+        newInterceptions.set(missileId, { missileId, position, at: Date.now() });
+        return { interceptions: newInterceptions };
+      });
+      
+      // Clear the flash once it has played out
+      setTimeout(() => set((state) => {
+        const newInterceptions = new Map(state.interceptions);
+        newInterceptions.delete(missileId);
+        return { interceptions: newInterceptions };
+      }), INTERCEPTION_EFFECT_MS);
+    },
+    
     setHoveredTile: (tile) => set({ hoveredTile: tile }),
     
     setBuildingOptions: (options) => set({ buildingOptions: options }),
     
+    setWeaponOptions: (options) => set({ weaponOptions: options }),
+    
+    setArmedLaunch: (launch) => set({ armedLaunch: launch }),
+    
     updateGameTime: (time) => set({ gameTime: time }),
     
-    updateGameState: (state) => set(() => {
+    setLastError: (message) => set({ lastError: message ? { message, at: Date.now() } : null }),
+    
+    setMatch: (match, tick) => set({
+      match,
+      // Convert the server tick into local wall-clock time for countdowns
+      phaseDeadline: match.phaseEndsAtTick !== undefined
+        ? Date.now() + (match.phaseEndsAtTick - tick) * TICK_DURATION_MS
+        : null
+    }),
+    
+    setMatchResult: (result) => set({ matchResult: result }),
+    
+    updateGameState: (state) => set((current) => {
       const newPlayers = new Map();
       state.players.forEach(player => {
         newPlayers.set(player.id, player);
@@ -144,42 +250,65 @@ export const useGameState = create<GameState>()(
         newTiles.set(tile.id, tile);
       });
       
+      const newMissiles = new Map();
+      state.missiles.forEach(missile => {
+        newMissiles.set(missile.id, missile);
+      });
+      
+      // Warnings only outlive a snapshot while their nuke is still flying
+      const newWarnings = new Map(
+        Array.from(current.nukeWarnings).filter(([missileId]) => newMissiles.has(missileId))
+      );
+      
+      // Late joiners learn about nukes already in the air from the snapshot
+      const tick = Math.round(state.gameTime / TICK_DURATION_MS);
+      state.missiles.forEach(missile => {
+        if (missile.weapon !== 'nuke' || newWarnings.has(missile.id)) return;
+        newWarnings.set(missile.id, {
+          missileId: missile.id,
+          playerId: missile.playerId,
+          toTileId: missile.toTileId,
+          impactsAt: Date.now() + (missile.launchTick + missile.travelTicks - tick) * TICK_DURATION_MS
+        });
+      });
+      
+      return {
+        players: newPlayers,
+        worldSeed: state.seed,
+        tiles: newTiles,
+        missiles: newMissiles,
+        nukeWarnings: newWarnings,
+        gameTime: state.gameTime,
+        stateSeq: state.seq
+      };
+    }),
+    
+    applyStateDelta: (delta) => set((state) => {
+      const newPlayers = new Map(state.players);
+      delta.players.forEach(({ cleared, ...fields }) => {
+        const existingPlayer = newPlayers.get(fields.id);
+        const player = { ...existingPlayer, ...fields } as Player;
+        cleared?.forEach(key => delete player[key]);
+        newPlayers.set(fields.id, player);
+      });
+      delta.removedPlayerIds.forEach(playerId => newPlayers.delete(playerId));
+      
+      const newTiles = delta.tiles.length > 0 ? new Map(state.tiles) : state.tiles;
+      delta.tiles.forEach(tile => {
+        newTiles.set(tile.id, tile);
+      });
+      
+      const currentPlayer = state.currentPlayer
+        ? newPlayers.get(state.currentPlayer.id) ?? null
+        : null;
+      
       return {
         players: newPlayers,
+        currentPlayer,
         tiles: newTiles,
-        gameTime: state.gameTime
+        gameTime: delta.tick * TICK_DURATION_MS,
+        stateSeq: delta.seq
       };
     })
   }))
 );
-
-// Auto-update population and gold over time
-useGameState.subscribe(
-  (state) => state.gameTime,
-  (gameTime) => {
-    const state = useGameState.getState();
-    if (!state.currentPlayer) return;
-    
-    // Update every second (assuming gameTime is in milliseconds)
-    const now = Date.now();
-    if (now - gameTime < 1000) return;
-    
-    const { currentPlayer, tiles } = state;
-    const ownedTiles = Array.from(tiles.values()).filter(t => t.ownerId === currentPlayer.id);
-    
-    // Calculate population growth (cities boost growth)
-    const baseGrowth = ownedTiles.length * 0.01;
-    const cityBonus = ownedTiles.filter(t => t.hasCity).length * 0.05;
-    const populationGrowth = baseGrowth + cityBonus;
-    
-    // Calculate gold generation (workers generate gold)
-    const workers = currentPlayer.population * (1 - currentPlayer.workerRatio);
-    const goldPerSecond = workers * 0.1;
-    
-    // Update player stats
-    state.updatePlayer(currentPlayer.id, {
-      population: currentPlayer.population + populationGrowth,
-      gold: currentPlayer.gold + goldPerSecond
-    });
-  }
-);
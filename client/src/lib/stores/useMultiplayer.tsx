@@ -1,22 +1,44 @@
 import { create } from "zustand";
 import { useGameState } from "./useGameState";
-import { Player, GameTile } from "../types/game";
-import { Missile } from "../../shared/schema";
+import { ExpansionPolicy, StructureType, TICK_DURATION_MS, WeaponType } from "@shared/schema";
+import { ClientMessage, DEFAULT_ROOM_ID, parseServerMessage } from "@shared/protocol";
+import { decodeBinaryMessage } from "@shared/wireFormat";
+import { getLocalStorage, setLocalStorage } from "../utils";
+
+// Lets a reloaded page or dropped socket take back the same empire; tokens
+// are only valid in the room that issued them
+const resumeTokenKey = (roomId: string) => `resumeToken:${roomId}`;
+
+// Reconnect backoff: 1s, 2s, 4s, ... capped at 30s
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
 interface MultiplayerState {
   socket: WebSocket | null;
   isConnected: boolean;
   isConnecting: boolean;
+  awaitingSnapshot: boolean; // Requested a resync after missing a delta
+  roomId: string;
+  reconnectAttempts: number;
+  shouldReconnect: boolean; // False after an explicit disconnect()
   
   // Actions
   connect: () => void;
   disconnect: () => void;
-  spawnPlayer: () => void;
+  scheduleReconnect: () => void;
+  joinRoom: (roomId: string) => void;
+  send: (message: ClientMessage) => void;
+  spawnPlayer: (username: string) => void;
+  chooseSpawn: (tileId: number) => void;
   selectTile: (tileId: number) => void;
   expandTerritory: (tileId: number) => void;
+  attackTile: (tileId: number, soldiers?: number) => void;
+  setExpansionPolicy: (policy: ExpansionPolicy) => void;
   adjustWorkerRatio: (ratio: number) => void;
-  buildStructure: (tileId: number, structureType: 'city' | 'port' | 'missile_silo') => void;
-  launchMissile: (fromTileId: number, toTileId: number) => void;
+  buildStructure: (tileId: number, structureType: StructureType) => void;
+  launchMissile: (fromTileId: number, toTileId: number, weapon?: WeaponType) => void;
   
   // Message handlers
   handleMessage: (event: MessageEvent) => void;
@@ -26,29 +48,40 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
   socket: null,
   isConnected: false,
   isConnecting: false,
+  awaitingSnapshot: false,
+  roomId: new URLSearchParams(window.location.search).get('room') ?? DEFAULT_ROOM_ID,
+  reconnectAttempts: 0,
+  shouldReconnect: true,
   
   connect: () => {
     const state = get();
     if (state.socket || state.isConnecting) return;
     
-    set({ isConnecting: true });
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    set({ isConnecting: true, shouldReconnect: true });
     
-    // Connect to WebSocket server
+    // Connect to WebSocket server; binary tile state unless ?encoding=json is
+    // on the page URL (handy when inspecting frames while debugging)
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    const encoding = new URLSearchParams(window.location.search).get('encoding') === 'json' ? 'json' : 'binary';
+    const wsUrl = `${protocol}//${window.location.host}/ws?encoding=${encoding}&room=${encodeURIComponent(state.roomId)}`;
     
     try {
       const socket = new WebSocket(wsUrl);
+      socket.binaryType = 'arraybuffer';
       
       socket.onopen = () => {
         console.log('Connected to game server');
         set({ 
           socket, 
           isConnected: true, 
-          isConnecting: false 
+          isConnecting: false,
+          reconnectAttempts: 0
         });
-        
-        useGameState.getState().setGamePhase('waiting');
+        // The server answers with room_joined, which resumes any session
       };
       
       socket.onmessage = (event) => {
@@ -63,25 +96,46 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
           isConnecting: false 
         });
         
-        useGameState.getState().setGamePhase('waiting');
+        if (get().shouldReconnect) {
+          get().scheduleReconnect();
+        } else {
+          useGameState.getState().setGamePhase('waiting');
+        }
       };
       
       socket.onerror = (error) => {
+        // onclose follows and takes care of reconnecting
         console.error('WebSocket error:', error);
-        set({ 
-          socket: null, 
-          isConnected: false, 
-          isConnecting: false 
-        });
       };
       
     } catch (error) {
       console.error('Failed to connect:', error);
       set({ isConnecting: false });
+      get().scheduleReconnect();
     }
   },
   
+  scheduleReconnect: () => {
+    if (reconnectTimer) return;
+    
+    const attempts = get().reconnectAttempts;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempts, RECONNECT_MAX_DELAY_MS);
+    console.log(`Reconnecting in ${delay}ms`);
+    
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      set({ reconnectAttempts: attempts + 1 });
+      get().connect();
+    }, delay);
+  },
+  
   disconnect: () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    set({ shouldReconnect: false });
+    
     const { socket } = get();
     if (socket) {
       socket.close();
@@ -93,154 +147,244 @@ export const useMultiplayer = create<MultiplayerState>((set, get) => ({
     });
   },
   
-  spawnPlayer: () => {
+  joinRoom: (roomId: string) => {
+    // roomId only changes once the server confirms with room_joined
+    get().send({ type: 'join_room', data: { roomId } });
+  },
+  
+  send: (message: ClientMessage) => {
     const { socket } = get();
-    if (!socket) return;
-    
-    socket.send(JSON.stringify({
-      type: 'spawn_player',
-      data: {
-        username: `Player_${Math.random().toString(36).substr(2, 6)}`
-      }
-    }));
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify(message));
+  },
+  
+  spawnPlayer: (username: string) => {
+    get().send({ type: 'spawn_player', data: { username } });
+  },
+  
+  chooseSpawn: (tileId: number) => {
+    get().send({ type: 'choose_spawn', data: { tileId } });
   },
   
   selectTile: (tileId: number) => {
-    const { socket } = get();
-    if (!socket) return;
-    
-    socket.send(JSON.stringify({
-      type: 'select_tile',
-      data: { tileId }
-    }));
+    get().send({ type: 'select_tile', data: { tileId } });
   },
   
   expandTerritory: (tileId: number) => {
-    const { socket } = get();
-    if (!socket) return;
-    
-    socket.send(JSON.stringify({
-      type: 'expand_territory',
-      data: { tileId }
-    }));
+    get().send({ type: 'expand_territory', data: { tileId } });
+  },
+  
+  attackTile: (tileId: number, soldiers?: number) => {
+    get().send({ type: 'attack_tile', data: { tileId, soldiers } });
+  },
+  
+  setExpansionPolicy: (policy: ExpansionPolicy) => {
+    get().send({ type: 'set_expansion_policy', data: policy });
   },
   
   adjustWorkerRatio: (ratio: number) => {
-    const { socket } = get();
     const currentPlayer = useGameState.getState().currentPlayer;
-    if (!socket || !currentPlayer) return;
+    if (!get().socket || !currentPlayer) return;
     
     // Update locally first for responsive UI
     useGameState.getState().updatePlayer(currentPlayer.id, { workerRatio: ratio });
     
     // Send to server
-    socket.send(JSON.stringify({
-      type: 'adjust_worker_ratio',
-      data: { ratio }
-    }));
+    get().send({ type: 'adjust_worker_ratio', data: { ratio } });
   },
 
-  buildStructure: (tileId: number, structureType: 'city' | 'port' | 'missile_silo') => {
-    const { socket } = get();
-    if (!socket) return;
-    
-    socket.send(JSON.stringify({
-      type: 'build_structure',
-      data: { tileId, structureType }
-    }));
+  buildStructure: (tileId: number, structureType: StructureType) => {
+    get().send({ type: 'build_structure', data: { tileId, structureType } });
   },
 
-  launchMissile: (fromTileId: number, toTileId: number) => {
-    const { socket } = get();
-    if (!socket) return;
-    
-    socket.send(JSON.stringify({
-      type: 'launch_missile',
-      data: { fromTileId, toTileId }
-    }));
-  },
-
-  launchMissile: (fromTileId: number, toTileId: number) => {
-    const { socket } = get();
-    if (!socket) return;
-    
-    socket.send(JSON.stringify({
-      type: 'launch_missile',
-      data: { fromTileId, toTileId }
-    }));
+  launchMissile: (fromTileId: number, toTileId: number, weapon: WeaponType = 'conventional') => {
+    get().send({ type: 'launch_missile', data: { fromTileId, toTileId, weapon } });
   },
   
   handleMessage: (event: MessageEvent) => {
-    try {
-      const message = JSON.parse(event.data);
-      const gameState = useGameState.getState();
-      
-      switch (message.type) {
-        case 'game_state':
-          gameState.updateGameState(message.data);
-          break;
-          
-        case 'player_spawned':
-          const player: Player = message.data.player;
-          gameState.setCurrentPlayer(player);
-          gameState.addPlayer(player);
-          gameState.setGamePhase('playing');
-          break;
-          
-        case 'player_joined':
-          gameState.addPlayer(message.data.player);
-          break;
-          
-        case 'player_left':
-          gameState.removePlayer(message.data.playerId);
-          break;
-          
-        case 'tile_updated':
-          const tile: GameTile = message.data.tile;
-          gameState.updateTile(tile.id, tile);
-          break;
-          
-        case 'player_updated':
-          const updatedPlayer: Player = message.data.player;
-          gameState.updatePlayer(updatedPlayer.id, updatedPlayer);
-          break;
-          
-        case 'territory_expanded':
-          const { tileId, playerId } = message.data;
-          gameState.updateTile(tileId, { ownerId: playerId });
-          break;
-          
-        case 'structure_built':
-          const builtTile: GameTile = message.data.tile;
-          gameState.updateTile(builtTile.id, builtTile);
-          console.log(`Built ${builtTile.structureType} on tile ${builtTile.id}`);
-          break;
-          
-        case 'missile_launched':
-          const missile: Missile = message.data.missile;
-          gameState.addMissile(missile);
-          console.log(`Missile launched from ${missile.fromTileId} to ${missile.toTileId}`);
-          break;
-          
-        case 'missile_impact':
-          const impactData = message.data;
-          gameState.removeMissile(impactData.missileId);
-          // Update any destroyed structures/population
-          if (impactData.tile) {
-            gameState.updateTile(impactData.tile.id, impactData.tile);
-          }
-          console.log(`Missile ${impactData.missileId} impacted at tile ${impactData.tileId}`);
+    const parsed = parseServerMessage(
+      typeof event.data === 'string' ? event.data : decodeBinaryMessage(event.data)
+    );
+    if (!parsed.success) {
+      console.error('Invalid message from server:', parsed.error);
+      return;
+    }
+    
+    const message = parsed.message;
+    const gameState = useGameState.getState();
+    
+    switch (message.type) {
+      case 'room_joined': {
+        const { roomId } = message.data;
+        set({ roomId, awaitingSnapshot: false });
+        
+        // Keep the address bar shareable as an invite link
+        const url = new URL(window.location.href);
+        if (roomId === DEFAULT_ROOM_ID) {
+          url.searchParams.delete('room');
+        } else {
+          url.searchParams.set('room', roomId);
+        }
+        window.history.replaceState(null, '', url);
+        gameState.setCurrentPlayer(null);
+        gameState.setBuildingOptions(null);
+        gameState.setWeaponOptions(null);
+        gameState.setArmedLaunch(null);
+        
+        // Try to pick up where we left off before falling back to a fresh spawn
+        const resumeToken = getLocalStorage(resumeTokenKey(roomId));
+        if (resumeToken) {
+          get().send({ type: 'resume_session', data: { resumeToken } });
+        } else {
+          gameState.setGamePhase('waiting');
+        }
+        break;
+      }
+        
+      case 'game_state': {
+        const snapshot = message.data;
+        gameState.updateGameState(snapshot);
+        gameState.setMatch(snapshot.match, Math.round(snapshot.gameTime / TICK_DURATION_MS));
+        set({ awaitingSnapshot: false });
+        
+        // Our empire is not in this world (e.g. the room reset after a match)
+        const { currentPlayer, gamePhase } = gameState;
+        if (currentPlayer && !snapshot.players.some(player => player.id === currentPlayer.id)) {
+          gameState.setCurrentPlayer(null);
+          gameState.setGamePhase('waiting');
+        } else if (gamePhase === 'ended' && snapshot.match.phase !== 'ended') {
+          gameState.setGamePhase(currentPlayer ? 'playing' : 'waiting');
+        }
+        if (snapshot.match.phase !== 'ended') {
+          gameState.setMatchResult(null);
+        }
+        break;
+      }
+        
+      case 'match_phase':
+        gameState.setMatch(message.data.match, message.data.tick);
+        break;
+        
+      case 'capital_lost': {
+        const { playerId, eliminated } = message.data;
+        const player = gameState.players.get(playerId);
+        console.log(`${player?.username ?? playerId} lost their capital${eliminated ? ' and was eliminated' : ''}`);
+        if (playerId === gameState.currentPlayer?.id) {
+          gameState.setLastError(eliminated
+            ? 'Your capital has fallen, your empire is lost'
+            : 'Your capital has fallen! The HQ moved and your empire paid the price');
+        }
+        break;
+      }
+        
+      case 'match_ended':
+        gameState.setMatchResult(message.data);
+        gameState.setGamePhase('ended');
+        break;
+        
+      case 'state_delta': {
+        const delta = message.data;
+        if (delta.seq <= gameState.stateSeq || get().awaitingSnapshot) {
+          // Already covered by a snapshot, or a resync is on its way
           break;
-          
-        case 'error':
-          console.error('Game error:', message.data.message);
+        }
+        if (delta.seq !== gameState.stateSeq + 1) {
+          console.warn(`Missed state deltas (have ${gameState.stateSeq}, got ${delta.seq}), requesting snapshot`);
+          set({ awaitingSnapshot: true });
+          get().send({ type: 'request_snapshot', data: {} });
           break;
-          
-        default:
-          console.log('Unknown message type:', message.type);
+        }
+        gameState.applyStateDelta(delta);
+        break;
       }
-    } catch (error) {
-      console.error('Failed to parse message:', error);
+        
+      case 'player_spawned': {
+        const { player, resumeToken } = message.data;
+        setLocalStorage(resumeTokenKey(get().roomId), resumeToken);
+        gameState.setCurrentPlayer(player);
+        gameState.addPlayer(player);
+        gameState.setGamePhase('playing');
+        break;
+      }
+        
+      case 'session_resumed': {
+        const { player } = message.data;
+        console.log(`Resumed session as ${player.username}`);
+        gameState.setCurrentPlayer(player);
+        gameState.updatePlayer(player.id, player);
+        gameState.setGamePhase('playing');
+        break;
+      }
+        
+      case 'player_joined':
+        gameState.addPlayer(message.data.player);
+        break;
+        
+      case 'player_left':
+        gameState.removePlayer(message.data.playerId);
+        break;
+        
+      case 'tile_updated':
+        gameState.updateTile(message.data.tile.id, message.data.tile);
+        break;
+        
+      case 'player_updated':
+        gameState.updatePlayer(message.data.player.id, message.data.player);
+        break;
+        
+      case 'territory_expanded':
+        gameState.updateTile(message.data.tileId, { ownerId: message.data.playerId });
+        break;
+        
+      case 'attack_repelled':
+        console.log(`Attack on tile ${message.data.tileId} repelled, lost ${Math.floor(message.data.attackerLosses)} soldiers`);
+        break;
+        
+      case 'structure_built': {
+        const { tile } = message.data;
+        gameState.updateTile(tile.id, tile);
+        console.log(`Built ${tile.structureType} on tile ${tile.id}`);
+        break;
+      }
+        
+      case 'missile_launched': {
+        const { missile } = message.data;
+        gameState.addMissile(missile);
+        console.log(`Missile launched from ${missile.fromTileId} to ${missile.toTileId}`);
+        break;
+      }
+        
+      case 'nuke_warning':
+        gameState.addNukeWarning(message.data);
+        break;
+        
+      case 'missile_intercepted':
+        gameState.interceptMissile(message.data);
+        console.log(`Missile ${message.data.missileId} shot down by SAM on tile ${message.data.samTileId}`);
+        break;
+        
+      case 'missile_impact': {
+        const impact = message.data;
+        gameState.removeMissile(impact.missileId);
+        // Update any destroyed structures/population
+        if (impact.tile) {
+          gameState.updateTile(impact.tile.id, impact.tile);
+        }
+        console.log(`Missile ${impact.missileId} impacted at tile ${impact.tileId}`);
+        break;
+      }
+        
+      case 'error':
+        if (message.data.code === 'SESSION_EXPIRED') {
+          // Our empire is gone; start over with a fresh spawn
+          window.localStorage.removeItem(resumeTokenKey(get().roomId));
+          gameState.setCurrentPlayer(null);
+          gameState.setGamePhase('waiting');
+          break;
+        }
+        console.error(`Game error (${message.data.code}):`, message.data.message);
+        gameState.setLastError(message.data.message);
+        break;
     }
   }
 }));
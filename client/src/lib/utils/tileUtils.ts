@@ -1,3 +1,4 @@
+import { TERRAIN_RULES } from "@shared/terrain";
 import { TileData } from "../geometry/GlobeGeometry";
 
 export function getTerrainType(lat: number, lon: number): string {
@@ -47,43 +48,13 @@ export function canBuildCity(tile: TileData): boolean {
   return !isWaterTile(tile.lat, tile.lon) && terrain !== 'ice';
 }
 
-export function getExpansionCost(fromTileId: number, toTileId: number): number {
-  // Base cost is 100 gold
-  // Could add distance-based costs or terrain modifiers
-  return 100;
+// Soldiers needed to claim the tile, or undefined if it cannot be claimed
+export function getExpansionCost(tile: TileData): number | undefined {
+  const rules = TERRAIN_RULES[tile.terrainType];
+  return rules.claimable ? rules.claimCost : undefined;
 }
 
 export function isAdjacent(tile1: TileData, tile2: TileData): boolean {
-  // Check if two tiles share any vertices (simplified adjacency check)
-  const threshold = 0.1; // Tolerance for floating point comparison
-  
-  for (const v1 of tile1.vertices) {
-    for (const v2 of tile2.vertices) {
-      if (v1.distanceTo(v2) < threshold) {
-        return true;
-      }
-    }
-  }
-  
-  return false;
-}
-
-export function findSafeSpawnZone(tiles: TileData[]): TileData | null {
-  // Find a tile in polar regions or low-density areas for spawning
-  const safeTiles = tiles.filter(tile => {
-    const absLat = Math.abs(tile.lat);
-    const terrain = getTerrainType(tile.lat, tile.lon);
-    
-    // Prefer polar regions or remote areas
-    return (absLat > 60 || (absLat < 30 && Math.abs(tile.lon) > 120)) &&
-           !isWaterTile(tile.lat, tile.lon) &&
-           terrain !== 'ice';
-  });
-  
-  if (safeTiles.length === 0) {
-    // Fallback to any land tile
-    return tiles.find(tile => !isWaterTile(tile.lat, tile.lon)) || tiles[0];
-  }
-  
-  return safeTiles[Math.floor(Math.random() * safeTiles.length)];
+  // Tiles are adjacent when they share an edge in the geodesic topology
+  return tile1.neighbors.includes(tile2.id);
 }
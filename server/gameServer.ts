@@ -1,96 +1,149 @@
 import { WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
 import { GameState } from './gameState';
-import { Player, GameTile, GameMessage } from '../client/src/lib/types/game';
+import { randomSeed } from '../shared/random';
+import {
+  GameTile, Player, MatchSettings, RoomSettings, RoomSummary, DEFAULT_MATCH_SETTINGS, DEFAULT_ROOM_SETTINGS,
+  GAME_MODE_VICTORY, MATCH_PHASES, MatchPhase, TICK_RATE, TICK_DURATION_MS
+} from '../shared/schema';
+import { ClientMessage, ClientMessageOf, ErrorCode, ServerMessage } from '../shared/protocol';
+import { WireEncoding, encodeBinaryMessage, isBinaryMessage } from '../shared/wireFormat';
+
+// Never simulate more than this many ticks per loop iteration after a stall
+const MAX_CATCH_UP_TICKS = TICK_RATE;
+
+// How long a disconnected player's empire survives waiting for a resume
+const SESSION_GRACE_PERIOD_MS = 2 * 60 * 1000;
 
 interface ClientConnection {
   ws: WebSocket;
   playerId?: string;
+  resumeToken?: string;
   lastPing: number;
+  encoding: WireEncoding; // Negotiated via the `encoding` query parameter
+}
+
+interface PlayerSession {
+  playerId: string;
+  disconnectedAt?: number; // Unset while a socket is bound to the player
 }
 
+// Everything but join_room, which the room manager handles itself
+export type RoomMessage = Exclude<ClientMessage, { type: 'join_room' }>;
+
+// Match phases each message is accepted in; anything unlisted needs a running match
+const ALLOWED_PHASES: Partial<Record<RoomMessage['type'], readonly MatchPhase[]>> = {
+  spawn_player: ['lobby', 'spawning', 'playing'],
+  choose_spawn: ['spawning'],
+  resume_session: MATCH_PHASES,
+  request_snapshot: MATCH_PHASES
+};
+
 export class GameServer {
-  private gameState: GameState;
+  readonly roomId: string;
+  private currentState?: GameState; // Generated when the first client connects
+  private firstSeed: number; // Seed the world will be generated from
   private connections: Map<WebSocket, ClientConnection> = new Map();
-  private gameLoop: NodeJS.Timeout;
-  private pingInterval: NodeJS.Timeout;
+  private sessions: Map<string, PlayerSession> = new Map(); // By resume token
+  private gameLoop?: NodeJS.Timeout;
+  private pingInterval?: NodeJS.Timeout;
+  private lastLoopTime = 0;
+  private tickAccumulator = 0;
+  private stateSeq = 0; // Sequence number of the last broadcast state delta
+
+  readonly settings: RoomSettings;
+  private matchSettings: MatchSettings;
+
+  constructor(roomId: string, settings: RoomSettings = DEFAULT_ROOM_SETTINGS) {
+    this.roomId = roomId;
+    this.settings = settings;
+    this.matchSettings = { ...DEFAULT_MATCH_SETTINGS, victory: GAME_MODE_VICTORY[settings.mode] };
+    // Picked up front so the room browser can show it before anyone joins
+    this.firstSeed = settings.seed ?? randomSeed();
+    
+    console.log(`Room ${roomId} initialized`);
+  }
+
+  private get gameState(): GameState {
+    if (!this.currentState) {
+      throw new Error(`Room ${this.roomId} has not started`);
+    }
+    return this.currentState;
+  }
 
-  constructor() {
-    this.gameState = new GameState();
+  // Rooms nobody has joined yet cost neither a world nor a loop
+  private start() {
+    this.currentState = new GameState(this.firstSeed, this.matchSettings);
     
-    // Start game loop (60 FPS)
+    // Start game loop; wall-clock time only decides how many fixed ticks to run
+    this.lastLoopTime = Date.now();
     this.gameLoop = setInterval(() => {
-      this.update();
-    }, 1000 / 60);
+      this.runGameLoop();
+    }, TICK_DURATION_MS);
     
     // Start ping interval (every 30 seconds)
     this.pingInterval = setInterval(() => {
       this.pingClients();
     }, 30000);
     
-    console.log('Game server initialized');
+    console.log(`Room ${this.roomId} started`);
   }
 
-  handleConnection(ws: WebSocket) {
+  handleConnection(ws: WebSocket, encoding: WireEncoding = 'json') {
+    if (!this.currentState) {
+      this.start();
+    }
+    
     const connection: ClientConnection = {
       ws,
-      lastPing: Date.now()
+      lastPing: Date.now(),
+      encoding
     };
     
     this.connections.set(ws, connection);
     
     // Send current game state to new client
-    this.sendToClient(ws, {
-      type: 'game_state',
-      data: {
-        players: Array.from(this.gameState.getPlayers().values()),
-        tiles: Array.from(this.gameState.getTiles().values()),
-        gameTime: this.gameState.getGameTime()
-      }
-    });
-    
-    ws.on('message', (data) => {
-      try {
-        const message: GameMessage = JSON.parse(data.toString());
-        this.handleMessage(ws, message);
-      } catch (error) {
-        console.error('Failed to parse message:', error);
-        this.sendError(ws, 'Invalid message format');
-      }
-    });
-    
-    ws.on('pong', () => {
-      const connection = this.connections.get(ws);
-      if (connection) {
-        connection.lastPing = Date.now();
-      }
-    });
+    this.sendSnapshot(ws);
+  }
+
+  handlePong(ws: WebSocket) {
+    const connection = this.connections.get(ws);
+    if (connection) {
+      connection.lastPing = Date.now();
+    }
   }
 
   handleDisconnection(ws: WebSocket) {
     const connection = this.connections.get(ws);
-    if (connection?.playerId) {
-      // Remove player from game
-      this.gameState.removePlayer(connection.playerId);
-      
-      // Notify other clients
-      this.broadcast({
-        type: 'player_left',
-        data: { playerId: connection.playerId }
-      }, ws);
+    const session = connection?.resumeToken ? this.sessions.get(connection.resumeToken) : undefined;
+    if (session) {
+      // Keep the empire around; the client may come back with its token
+      session.disconnectedAt = Date.now();
+      console.log(`Player ${session.playerId} disconnected, holding session`);
     }
     
     this.connections.delete(ws);
   }
 
-  private handleMessage(ws: WebSocket, message: GameMessage) {
+  handleMessage(ws: WebSocket, message: RoomMessage) {
     const connection = this.connections.get(ws);
     if (!connection) return;
 
+    const allowedPhases = ALLOWED_PHASES[message.type] ?? ['playing'];
+    if (!allowedPhases.includes(this.gameState.getMatch().phase)) {
+      this.sendError(ws, 'WRONG_PHASE', `Not allowed while the match is ${this.gameState.getMatch().phase}`);
+      return;
+    }
+
     switch (message.type) {
       case 'spawn_player':
         this.handleSpawnPlayer(ws, message.data);
         break;
         
+      case 'choose_spawn':
+        this.handleChooseSpawn(ws, message.data);
+        break;
+        
       case 'select_tile':
         this.handleSelectTile(ws, message.data);
         break;
@@ -99,10 +152,18 @@ export class GameServer {
         this.handleExpandTerritory(ws, message.data);
         break;
         
+      case 'attack_tile':
+        this.handleAttackTile(ws, message.data);
+        break;
+        
       case 'build_structure':
         this.handleBuildStructure(ws, message.data);
         break;
         
+      case 'set_expansion_policy':
+        this.handleSetExpansionPolicy(ws, message.data);
+        break;
+        
       case 'adjust_worker_ratio':
         this.handleAdjustWorkerRatio(ws, message.data);
         break;
@@ -111,27 +172,47 @@ export class GameServer {
         this.handleLaunchMissile(ws, message.data);
         break;
         
-      default:
-        this.sendError(ws, `Unknown message type: ${message.type}`);
+      case 'resume_session':
+        this.handleResumeSession(ws, message.data);
+        break;
+        
+      case 'request_snapshot':
+        // Client detected a gap in state deltas
+        this.sendSnapshot(ws);
+        break;
     }
   }
 
-  private handleSpawnPlayer(ws: WebSocket, data: { username: string }) {
+  private handleSpawnPlayer(ws: WebSocket, data: ClientMessageOf<'spawn_player'>['data']) {
     const connection = this.connections.get(ws);
     if (!connection) return;
     
     if (connection.playerId) {
-      this.sendError(ws, 'Player already spawned');
+      this.sendError(ws, 'ALREADY_SPAWNED', 'Player already spawned');
+      return;
+    }
+    
+    if (this.gameState.getPlayers().size >= this.settings.maxPlayers) {
+      this.sendError(ws, 'ROOM_FULL', 'The room is full');
       return;
     }
     
-    const player = this.gameState.spawnPlayer(data.username);
+    const result = this.gameState.spawnPlayer(data.username);
+    if (!result.success) {
+      this.sendError(ws, result.code ?? 'ACTION_FAILED', result.error || 'Cannot spawn');
+      return;
+    }
+    
+    const player: Player = result.data.player;
+    const resumeToken = randomBytes(24).toString('base64url');
+    this.sessions.set(resumeToken, { playerId: player.id });
     connection.playerId = player.id;
+    connection.resumeToken = resumeToken;
     
     // Send spawn confirmation to client
     this.sendToClient(ws, {
       type: 'player_spawned',
-      data: { player }
+      data: { player, resumeToken }
     });
     
     // Notify other clients
@@ -143,22 +224,69 @@ export class GameServer {
     console.log(`Player spawned: ${player.username} (${player.id})`);
   }
 
-  private handleSelectTile(ws: WebSocket, data: { tileId: number }) {
+  private handleResumeSession(ws: WebSocket, data: ClientMessageOf<'resume_session'>['data']) {
+    const connection = this.connections.get(ws);
+    if (!connection) return;
+    
+    if (connection.playerId) {
+      this.sendError(ws, 'ALREADY_SPAWNED', 'Player already spawned');
+      return;
+    }
+    
+    const session = this.sessions.get(data.resumeToken);
+    const player = session && this.gameState.getPlayer(session.playerId);
+    if (!session || !player) {
+      this.sendError(ws, 'SESSION_EXPIRED', 'Session expired or unknown');
+      return;
+    }
+    
+    // A half-open socket may still hold the player; the new one wins
+    this.connections.forEach((other, otherWs) => {
+      if (other.resumeToken === data.resumeToken) {
+        other.playerId = undefined;
+        other.resumeToken = undefined;
+        otherWs.close();
+      }
+    });
+    
+    session.disconnectedAt = undefined;
+    connection.playerId = player.id;
+    connection.resumeToken = data.resumeToken;
+    
+    this.sendToClient(ws, {
+      type: 'session_resumed',
+      data: { player }
+    });
+    
+    console.log(`Player resumed: ${player.username} (${player.id})`);
+  }
+
+  private handleChooseSpawn(ws: WebSocket, data: ClientMessageOf<'choose_spawn'>['data']) {
     const connection = this.connections.get(ws);
     if (!connection?.playerId) {
-      this.sendError(ws, 'Player not spawned');
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
+      return;
+    }
+    
+    // The new capital reaches everyone through the next state delta
+    const result = this.gameState.chooseSpawn(connection.playerId, data.tileId);
+    if (!result.success) {
+      this.sendError(ws, 'ACTION_FAILED', result.error || 'Cannot place capital here');
+    }
+  }
+
+  private handleSelectTile(ws: WebSocket, data: ClientMessageOf<'select_tile'>['data']) {
+    const connection = this.connections.get(ws);
+    if (!connection?.playerId) {
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
       return;
     }
     
     const result = this.gameState.selectTile(connection.playerId, data.tileId);
     
     if (result.success) {
-      if (result.data?.type === 'building_options') {
-        // Send building options back to client
-        this.sendToClient(ws, {
-          type: 'building_options',
-          data: result.data
-        });
+      if (result.data?.type === 'attack') {
+        this.broadcastAttackResult(ws, connection.playerId, result.data);
       } else {
         // Territory expansion successful
         this.broadcast({
@@ -170,22 +298,76 @@ export class GameServer {
         });
         
         // Update player stats
-        this.broadcast({
-          type: 'player_updated',
-          data: {
-            player: this.gameState.getPlayer(connection.playerId)
-          }
-        });
+        this.broadcastPlayerUpdate(connection.playerId);
       }
     } else {
-      this.sendError(ws, result.error || 'Cannot select tile');
+      this.sendError(ws, 'ACTION_FAILED', result.error || 'Cannot select tile');
+    }
+  }
+
+  private handleAttackTile(ws: WebSocket, data: ClientMessageOf<'attack_tile'>['data']) {
+    const connection = this.connections.get(ws);
+    if (!connection?.playerId) {
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
+      return;
+    }
+    
+    const result = this.gameState.attackTile(connection.playerId, data.tileId, data.soldiers);
+    
+    if (result.success) {
+      this.broadcastAttackResult(ws, connection.playerId, result.data);
+    } else {
+      this.sendError(ws, 'ACTION_FAILED', result.error || 'Cannot attack tile');
     }
   }
 
-  private handleBuildStructure(ws: WebSocket, data: { tileId: number, structureType: 'city' | 'port' | 'missile_silo' }) {
+  private broadcastAttackResult(ws: WebSocket, attackerId: string, attack: { victory: boolean, tileId: number, defenderId: string, attackerLosses: number, defenderLosses: number, tile: GameTile }) {
+    if (attack.victory) {
+      // Ownership changed hands
+      this.broadcast({
+        type: 'territory_expanded',
+        data: {
+          tileId: attack.tileId,
+          playerId: attackerId
+        }
+      });
+      
+      this.broadcast({
+        type: 'tile_updated',
+        data: { tile: attack.tile }
+      });
+    } else {
+      this.sendToClient(ws, {
+        type: 'attack_repelled',
+        data: {
+          tileId: attack.tileId,
+          defenderId: attack.defenderId,
+          attackerLosses: attack.attackerLosses,
+          defenderLosses: attack.defenderLosses
+        }
+      });
+    }
+    
+    // Both sides lost troops
+    [attackerId, attack.defenderId].forEach(playerId => {
+      this.broadcastPlayerUpdate(playerId);
+    });
+  }
+
+  private broadcastPlayerUpdate(playerId: string) {
+    const player = this.gameState.getPlayer(playerId);
+    if (player) {
+      this.broadcast({
+        type: 'player_updated',
+        data: { player }
+      });
+    }
+  }
+
+  private handleBuildStructure(ws: WebSocket, data: ClientMessageOf<'build_structure'>['data']) {
     const connection = this.connections.get(ws);
     if (!connection?.playerId) {
-      this.sendError(ws, 'Player not spawned');
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
       return;
     }
     
@@ -201,51 +383,57 @@ export class GameServer {
       });
       
       // Update player stats
-      this.broadcast({
-        type: 'player_updated',
-        data: {
-          player: this.gameState.getPlayer(connection.playerId)
-        }
-      });
+      this.broadcastPlayerUpdate(connection.playerId);
     } else {
-      this.sendError(ws, result.error || 'Cannot build structure');
+      this.sendError(ws, 'ACTION_FAILED', result.error || 'Cannot build structure');
     }
   }
 
-  private handleExpandTerritory(ws: WebSocket, data: { tileId: number }) {
+  private handleExpandTerritory(ws: WebSocket, data: ClientMessageOf<'expand_territory'>['data']) {
     // Same as select tile for now
     this.handleSelectTile(ws, data);
   }
 
-  private handleAdjustWorkerRatio(ws: WebSocket, data: { ratio: number }) {
+  private handleSetExpansionPolicy(ws: WebSocket, data: ClientMessageOf<'set_expansion_policy'>['data']) {
+    const connection = this.connections.get(ws);
+    if (!connection?.playerId) {
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
+      return;
+    }
+    
+    const result = this.gameState.setExpansionPolicy(connection.playerId, data);
+    
+    if (result.success) {
+      this.broadcastPlayerUpdate(connection.playerId);
+    } else {
+      this.sendError(ws, 'ACTION_FAILED', result.error || 'Cannot set expansion policy');
+    }
+  }
+
+  private handleAdjustWorkerRatio(ws: WebSocket, data: ClientMessageOf<'adjust_worker_ratio'>['data']) {
     const connection = this.connections.get(ws);
     if (!connection?.playerId) {
-      this.sendError(ws, 'Player not spawned');
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
       return;
     }
     
     const result = this.gameState.adjustWorkerRatio(connection.playerId, data.ratio);
     
     if (result.success) {
-      this.broadcast({
-        type: 'player_updated',
-        data: {
-          player: this.gameState.getPlayer(connection.playerId)
-        }
-      });
+      this.broadcastPlayerUpdate(connection.playerId);
     } else {
-      this.sendError(ws, result.error || 'Cannot adjust worker ratio');
+      this.sendError(ws, 'ACTION_FAILED', result.error || 'Cannot adjust worker ratio');
     }
   }
 
-  private handleLaunchMissile(ws: WebSocket, data: { fromTileId: number, toTileId: number }) {
+  private handleLaunchMissile(ws: WebSocket, data: ClientMessageOf<'launch_missile'>['data']) {
     const connection = this.connections.get(ws);
     if (!connection?.playerId) {
-      this.sendError(ws, 'Player not spawned');
+      this.sendError(ws, 'NOT_SPAWNED', 'Player not spawned');
       return;
     }
     
-    const result = this.gameState.launchMissile(connection.playerId, data.fromTileId, data.toTileId);
+    const result = this.gameState.launchMissile(connection.playerId, data.fromTileId, data.toTileId, data.weapon);
     
     if (result.success && result.data?.missile) {
       // Broadcast missile launch to all clients
@@ -256,43 +444,117 @@ export class GameServer {
         }
       });
       
-      // Schedule missile impact
-      setTimeout(() => {
-        const impactResult = this.gameState.impactMissile(result.data.missile.id);
-        if (impactResult.success) {
-          this.broadcast({
-            type: 'missile_impact',
-            data: {
-              missileId: result.data.missile.id,
-              tileId: data.toTileId,
-              tile: impactResult.data?.tile
-            }
-          });
-        }
-      }, result.data.missile.travelTime);
-      
       console.log(`Missile launched from ${data.fromTileId} to ${data.toTileId}`);
     } else {
-      this.sendError(ws, result.error || 'Cannot launch missile');
+      this.sendError(ws, result.code ?? 'ACTION_FAILED', result.error || 'Cannot launch missile');
+    }
+  }
+
+  private runGameLoop() {
+    const now = Date.now();
+    this.tickAccumulator += now - this.lastLoopTime;
+    this.lastLoopTime = now;
+    
+    let ticksRun = 0;
+    while (this.tickAccumulator >= TICK_DURATION_MS && ticksRun < MAX_CATCH_UP_TICKS) {
+      this.update();
+      this.tickAccumulator -= TICK_DURATION_MS;
+      ticksRun++;
+    }
+    
+    // Drop backlog we could not catch up on rather than spiralling
+    if (ticksRun === MAX_CATCH_UP_TICKS) {
+      this.tickAccumulator = 0;
     }
   }
 
   private update() {
-    // Update game state
-    this.gameState.update();
+    this.expireSessions();
+    
+    // Advance the simulation one tick
+    this.gameState.step();
+    
+    if (this.gameState.isReadyForReset()) {
+      this.resetMatch();
+      return;
+    }
     
-    // Broadcast periodic updates (every 5 seconds)
-    if (this.gameState.getGameTime() % 5000 < 16) { // Approximately every 5 seconds
+    // Broadcast whatever changed during this tick
+    const changes = this.gameState.collectChanges();
+    if (changes.tiles.length > 0 || changes.players.length > 0 || changes.removedPlayerIds.length > 0) {
+      this.stateSeq++;
       this.broadcast({
-        type: 'game_state',
+        type: 'state_delta',
         data: {
-          players: Array.from(this.gameState.getPlayers().values()),
-          tiles: Array.from(this.gameState.getTiles().values()),
-          missiles: Array.from(this.gameState.getMissiles().values()),
-          gameTime: this.gameState.getGameTime()
+          seq: this.stateSeq,
+          tick: this.gameState.getTick(),
+          ...changes
         }
       });
     }
+    
+    // Match events go out after the delta so clients see the final state first
+    this.gameState.drainEvents().forEach(event => this.broadcast(event));
+  }
+
+  private resetMatch() {
+    console.log(`Room ${this.roomId} resetting into a fresh world`);
+    this.currentState = new GameState(this.settings.seed, this.matchSettings);
+    
+    // Empires belonged to the old world; everyone joins the new lobby afresh
+    this.sessions.clear();
+    this.connections.forEach((connection, ws) => {
+      connection.playerId = undefined;
+      connection.resumeToken = undefined;
+      this.sendSnapshot(ws);
+    });
+  }
+
+  private expireSessions() {
+    const now = Date.now();
+    
+    this.sessions.forEach((session, token) => {
+      if (!this.gameState.getPlayer(session.playerId)) {
+        // Removed by the simulation, e.g. for inactivity
+        this.sessions.delete(token);
+        this.unbindPlayer(session.playerId);
+      } else if (session.disconnectedAt !== undefined && now - session.disconnectedAt > SESSION_GRACE_PERIOD_MS) {
+        console.log(`Session for player ${session.playerId} expired`);
+        this.gameState.removePlayer(session.playerId);
+        this.sessions.delete(token);
+        this.unbindPlayer(session.playerId);
+        this.broadcast({
+          type: 'player_left',
+          data: { playerId: session.playerId }
+        });
+      }
+    });
+  }
+
+  // Sockets still bound to a removed player may spawn again
+  private unbindPlayer(playerId: string) {
+    this.connections.forEach(connection => {
+      if (connection.playerId === playerId) {
+        connection.playerId = undefined;
+        connection.resumeToken = undefined;
+      }
+    });
+  }
+
+  private sendSnapshot(ws: WebSocket) {
+    // Snapshot is tagged with the last delta it already includes
+    this.sendToClient(ws, {
+      type: 'game_state',
+      data: {
+        seq: this.stateSeq,
+        players: Array.from(this.gameState.getPlayers().values()),
+        tiles: Array.from(this.gameState.getTiles().values()),
+        missiles: Array.from(this.gameState.getMissiles().values()),
+        seed: this.gameState.getSeed(),
+        gameTime: this.gameState.getGameTime(),
+        match: this.gameState.getMatch()
+      }
+    });
   }
 
   private pingClients() {
@@ -314,55 +576,80 @@ export class GameServer {
     });
   }
 
-  private sendToClient(ws: WebSocket, message: GameMessage) {
+  private sendToClient(ws: WebSocket, message: ServerMessage) {
+    const connection = this.connections.get(ws);
     if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+      ws.send(this.encodeMessage(message, connection?.encoding ?? 'json'));
     }
   }
 
-  private broadcast(message: GameMessage, exclude?: WebSocket) {
+  private broadcast(message: ServerMessage, exclude?: WebSocket) {
+    // Encode at most once per encoding in use
+    const encoded = new Map<WireEncoding, string | Uint8Array>();
+    
     this.connections.forEach((connection, ws) => {
       if (ws !== exclude && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(message));
+        if (!encoded.has(connection.encoding)) {
+          encoded.set(connection.encoding, this.encodeMessage(message, connection.encoding));
+        }
+        ws.send(encoded.get(connection.encoding)!);
       }
     });
   }
 
-  private sendError(ws: WebSocket, message: string) {
+  private encodeMessage(message: ServerMessage, encoding: WireEncoding): string | Uint8Array {
+    if (encoding === 'binary' && isBinaryMessage(message)) {
+      return encodeBinaryMessage(message);
+    }
+    return JSON.stringify(message);
+  }
+
+  private sendError(ws: WebSocket, code: ErrorCode, message: string) {
     this.sendToClient(ws, {
       type: 'error',
-      data: { message }
+      data: { code, message }
     });
   }
 
+  // Nobody connected and nobody holding a session, safe to tear down
+  isEmpty(): boolean {
+    return this.connections.size === 0 && this.sessions.size === 0;
+  }
+
   // Public methods for API endpoints
+  getSummary(): RoomSummary {
+    return {
+      id: this.roomId,
+      players: this.getPlayerCount(),
+      maxPlayers: this.settings.maxPlayers,
+      phase: this.currentState?.getMatch().phase ?? 'lobby',
+      seed: this.getSeed(),
+      mode: this.settings.mode
+    };
+  }
+
   getPlayerCount(): number {
-    return this.gameState.getPlayers().size;
+    return this.currentState?.getPlayers().size ?? 0;
   }
 
   getGameTime(): number {
-    return this.gameState.getGameTime();
+    return this.currentState?.getGameTime() ?? 0;
+  }
+
+  getSeed(): number {
+    return this.currentState?.getSeed() ?? this.firstSeed;
   }
 
   getLeaderboard() {
-    const players = Array.from(this.gameState.getPlayers().values());
-    const tiles = this.gameState.getTiles();
-    
-    return players
-      .map(player => {
-        const territoryCount = Array.from(tiles.values())
-          .filter(tile => tile.ownerId === player.id).length;
-        
-        return {
-          username: player.username,
-          gold: Math.floor(player.gold),
-          population: Math.floor(player.population),
-          territory: territoryCount,
-          score: Math.floor(player.gold + player.population + territoryCount * 10)
-        };
-      })
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10);
+    return (this.currentState?.getStandings() ?? [])
+      .slice(0, 10)
+      .map(standing => ({
+        username: standing.username,
+        gold: standing.gold,
+        population: standing.population,
+        territory: standing.territory,
+        score: standing.score
+      }));
   }
 
   destroy() {
@@ -1,146 +1,375 @@
-import { Player, GameTile, Missile } from '../shared/schema';
-import { GlobeGeometry, TileData } from '../client/src/lib/geometry/GlobeGeometry';
+import {
+  Player, GameTile, Missile, PlayerDelta, StructureType, MatchSettings, MatchState, MatchEndReason, Standing,
+  ExpansionPolicy, DEFAULT_EXPANSION_POLICY, DEFAULT_MATCH_SETTINGS, TICK_RATE, TICK_DURATION_MS,
+  SOLDIER_TRAINING_COST, SOLDIER_UPKEEP_PER_SECOND, WORKER_GOLD_PER_SECOND, WeaponType, MAX_CLAIMS_PER_INTERVAL
+} from '../shared/schema';
+import { ErrorCode, ServerMessageOf } from '../shared/protocol';
+import { Rng, createRng, randomSeed } from '../shared/random';
+import { TERRAIN_RULES, getPopulationCap } from '../shared/terrain';
+import { BUILDINGS, BuildingEffects, getBuildError } from '../shared/buildings';
+import { NUKE_RULES, SILO_RULES, WEAPONS } from '../shared/missiles';
+import {
+  Vec3, WorldModel, generateWorld, getGreatCircleDistance, getNeighbors, getTerrainType, getTileCenter, getTileSpacing
+} from '../shared/world';
 
 interface ActionResult {
   success: boolean;
   error?: string;
+  code?: ErrorCode; // Set when clients can act on the specific reason
   data?: any;
 }
 
+interface SiloState {
+  rounds: number;
+  readyAtTick: Partial<Record<WeaponType, number>>; // Each weapon cools down on its own
+  reloadAtTick?: number; // Next missile restocked, while the magazine is not full
+}
+
+interface StateChanges {
+  tiles: GameTile[];
+  players: PlayerDelta[];
+  removedPlayerIds: string[];
+}
+
+// Things that happened during a tick that clients hear about as messages
+export type GameEvent = ServerMessageOf<
+  'match_phase' | 'match_ended' | 'capital_lost' | 'nuke_warning' | 'missile_intercepted' | 'missile_impact'
+>;
+
+// Combat tuning
+const MIN_ATTACK_SOLDIERS = 10;
+const DEFAULT_ATTACK_COMMITMENT = 0.5; // Share of available soldiers sent when none specified
+
+// The HQ also hardens every tile of its owner within this radius
+const HQ_DEFENSE_RADIUS_TILES = 3;
+const HQ_DEFENSE_BONUS = 1.25;
+// Share of gold and population lost when the capital has to move
+const CAPITAL_RELOCATION_PENALTY = 0.25;
+
+// Simulation timers, all in ticks
+const EXPANSION_INTERVAL_TICKS = Math.round(400 / TICK_DURATION_MS);
+const INACTIVITY_TIMEOUT_TICKS = 30 * 60 * TICK_RATE; // 30 minutes
+const VICTORY_CHECK_INTERVAL_TICKS = TICK_RATE;
+const NUKE_TOKEN_INTERVAL_TICKS = NUKE_RULES.tokenIntervalSeconds * TICK_RATE;
+
+// Peak altitude of a missile's arc above the unit globe
+const MISSILE_ARC_HEIGHT = 0.3;
+
+// Nuke blasts destroy buildings wherever they hit at least this hard
+const BLAST_STRUCTURE_DESTRUCTION = 0.5;
+
+// Capitals may not be placed closer than this to another player's capital
+const MIN_SPAWN_DISTANCE_TILES = 12;
+const SPAWN_TILE_POPULATION = 50;
+const STARTING_RING_TILE_POPULATION = 10;
+
+// Army training: how fast the soldier pool follows the worker ratio, as a
+// share of the population per second (with a floor for small empires)
+const TRAINING_RATE = 0.05;
+const MIN_TRAINING_PER_SECOND = 2;
+// Share of an unpaid army that deserts per second
+const DESERTION_RATE = 0.05;
+
+// Share of the fill difference between neighbouring tiles that migrates per second
+const MIGRATION_RATE = 0.2;
+
+// Expansion tuning. Manual and budgeted automatic claims both pay the
+// terrain's claim cost in soldiers.
+const AUTO_EXPANSION_TILE_POPULATION = 5;
+
+// Furthest any building lets its owner reach across open water
+const MAX_POWER_PROJECTION_RANGE = Math.max(
+  0,
+  ...Object.values(BUILDINGS).map(building => building.effects.powerProjectionRange ?? 0)
+);
+
 export class GameState {
   private players: Map<string, Player> = new Map();
   private tiles: Map<number, GameTile> = new Map();
+  private ownedTiles: Map<string, Set<number>> = new Map(); // Player id -> tile ids, kept by setOwner
+  private nextPopulation: Float64Array; // Scratch space for updatePopulation, by tile id
+  private populationCaps: Float64Array;
   private missiles: Map<string, Missile> = new Map();
-  private gameStartTime: number;
-  private lastUpdate: number;
-  private lastExpansionTime: number;
-  private adjacencyMap: Map<number, number[]> = new Map();
-  private globeGeometry: GlobeGeometry;
-  private tileData: TileData[];
-
-  constructor() {
-    this.gameStartTime = Date.now();
-    this.lastUpdate = Date.now();
-    this.lastExpansionTime = Date.now();
-    
-    // Generate globe geometry to get tile positions
-    this.globeGeometry = new GlobeGeometry();
-    this.tileData = this.globeGeometry.getTileData();
+  private changedTiles: Set<number> = new Set();
+  private constructions: Map<number, number> = new Map(); // Tile id -> tick the building finishes
+  private disabledTiles: Map<number, number> = new Map(); // Tile id -> tick its EMP'd building comes back online
+  private silos: Map<number, SiloState> = new Map();
+  private irradiatedTiles: Set<number> = new Set();
+  private samEngagements: Map<string, Set<number>> = new Map(); // Missile id -> SAM tiles that already fired at it
+  private syncedPlayers: Map<string, Player> = new Map();
+  private currentTick = 0;
+  private nextEntityId = 0;
+  private rng: Rng;
+  private world: WorldModel;
+  private landTileCount = 0;
+  private settings: MatchSettings;
+  private match: MatchState = { phase: 'lobby' };
+  private startingPlayerCount = 0;
+  private events: GameEvent[] = [];
+
+  constructor(seed: number = randomSeed(), settings: MatchSettings = DEFAULT_MATCH_SETTINGS) {
+    this.settings = settings;
+    
+    // Simulation randomness gets its own stream, derived from the world seed
+    this.rng = createRng(seed ^ 0x9e3779b9);
+    
+    // Generate the same world model the client renders from this seed
+    this.world = generateWorld(seed);
+    this.nextPopulation = new Float64Array(this.world.tileCount);
+    this.populationCaps = new Float64Array(this.world.tileCount);
     
     this.initializeTiles();
-    this.buildAdjacencyMap();
   }
 
   private initializeTiles() {
     // Initialize tiles using the same generation as client
-    this.tileData.forEach(tileData => {
+    for (let id = 0; id < this.world.tileCount; id++) {
       const tile: GameTile = {
-        id: tileData.id,
-
+        id,
         population: 0,
-        terrainType: tileData.terrainType
+        terrainType: getTerrainType(this.world, id)
       };
-      this.tiles.set(tileData.id, tile);
-    });
+      this.tiles.set(id, tile);
+      if (tile.terrainType !== 'water') {
+        this.landTileCount++;
+      }
+    }
     
     console.log(`Initialized ${this.tiles.size} tiles`);
   }
 
-  private buildAdjacencyMap() {
-    // Build true geometric adjacency using 3D positions
-    // With frequency 64, tiles are much smaller, so we need a smaller threshold
-    const neighborThreshold = 0.025; // Much smaller threshold for frequency 64
-    
-    this.tileData.forEach((tile, index) => {
-      const adjacent: number[] = [];
-      
-      // Find all tiles within the neighbor threshold distance
-      this.tileData.forEach((otherTile, otherIndex) => {
-        if (tile.id !== otherTile.id) {
-          // Calculate 3D distance between tile centers
-          const distance = tile.center.distanceTo(otherTile.center);
-          
-          if (distance < neighborThreshold) {
-            adjacent.push(otherTile.id);
-          }
-        }
-      });
-      
-      this.adjacencyMap.set(tile.id, adjacent);
-    });
-    
-    console.log(`Built adjacency map with average ${Array.from(this.adjacencyMap.values()).reduce((sum, adj) => sum + adj.length, 0) / this.adjacencyMap.size} neighbors per tile`);
-  }
-
-  private getRandomTerrain(): 'water' | 'grass' | 'desert' | 'mountain' {
-    // Generate terrain: water 65%, grass 20%, desert 10%, mountain 5%
-    const rand = Math.random();
-    if (rand < 0.65) return 'water';
-    if (rand < 0.85) return 'grass';
-    if (rand < 0.95) return 'desert';
-    return 'mountain';
+  private getNeighbors(tileId: number): Uint32Array {
+    return getNeighbors(this.world, tileId);
   }
 
-  spawnPlayer(username: string): Player {
-    const playerId = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Adds a player to the match. Their empire only appears once they place a
+  // capital; players joining a running match get one picked for them, unless
+  // there is no free land left.
+  spawnPlayer(username: string): ActionResult {
+    const spawnTileId = this.match.phase === 'playing' ? this.findSpawnTile() : undefined;
+    if (this.match.phase === 'playing' && spawnTileId === undefined) {
+      return { success: false, code: 'NO_SPAWN_LAND', error: 'No free land left to start an empire on' };
+    }
     
-    // Find a safe spawn tile
-    const spawnTileId = this.findSafeSpawnTile();
+    const playerId = this.createEntityId('player');
     
     // Generate random color
     const colors = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7', '#DDA0DD', '#98D8C8'];
-    const color = colors[Math.floor(Math.random() * colors.length)];
+    const color = colors[Math.floor(this.rng() * colors.length)];
     
     const player: Player = {
       id: playerId,
       username,
       color,
       gold: 1000,
-      population: 100,
+      population: 0, // Lives on tiles, so only counted once the player has some
+      soldiers: 0,
+      workers: 0,
       workerRatio: 0.5,
-      lastActive: Date.now()
+      nukeTokens: 0,
+      lastActiveTick: this.currentTick,
+      expansion: DEFAULT_EXPANSION_POLICY
     };
     
     this.players.set(playerId, player);
     
-    // Claim spawn tile
-    const spawnTile = this.tiles.get(spawnTileId);
-    if (spawnTile) {
-      spawnTile.ownerId = playerId;
-      spawnTile.population = 50; // Initial population on spawn tile
+    if (spawnTileId !== undefined) {
+      this.claimStartingTerritory(player, spawnTileId);
     }
     
-    return player;
+    return { success: true, data: { player } };
   }
 
-  private findSafeSpawnTile(): number {
-    // Find an unclaimed tile that's not water
-    const availableTiles = Array.from(this.tiles.entries())
-      .filter(([id, tile]) => !tile.ownerId && tile.terrainType !== 'water')
-      .map(([id]) => id);
+  chooseSpawn(playerId: string, tileId: number): ActionResult {
+    const player = this.players.get(playerId);
+    const tile = this.tiles.get(tileId);
+    
+    if (!player) {
+      return { success: false, error: 'Player not found' };
+    }
+    
+    if (!tile) {
+      return { success: false, error: 'Tile not found' };
+    }
+    
+    if (this.match.phase !== 'spawning') {
+      return { success: false, error: 'Capitals can only be placed during the spawn phase' };
+    }
+    
+    if (tile.terrainType === 'water') {
+      return { success: false, error: 'Capitals must be placed on land' };
+    }
+    
+    if (tile.ownerId && tile.ownerId !== playerId) {
+      return { success: false, error: 'Tile is already taken' };
+    }
+    
+    const minDistance = MIN_SPAWN_DISTANCE_TILES * getTileSpacing(this.world);
+    const tooClose = Array.from(this.players.values()).some(other =>
+      other.id !== playerId &&
+      other.capitalTileId !== undefined &&
+      getGreatCircleDistance(this.world, other.capitalTileId, tileId) < minDistance
+    );
+    if (tooClose) {
+      return { success: false, error: `Capitals must be at least ${MIN_SPAWN_DISTANCE_TILES} tiles apart` };
+    }
+    
+    // Players may change their mind until the spawn phase ends
+    this.releaseTerritory(playerId);
+    
+    this.claimStartingTerritory(player, tileId);
+    player.lastActiveTick = this.currentTick;
+    
+    return { success: true, data: { tile } };
+  }
+
+  // The HQ tile plus whatever free land surrounds it
+  private claimStartingTerritory(player: Player, tileId: number) {
+    const capital = this.tiles.get(tileId);
+    if (!capital) return;
+    
+    this.setOwner(capital, player.id);
+    capital.population = SPAWN_TILE_POPULATION;
+    this.placeCapital(player, capital);
+    
+    this.getNeighbors(tileId).forEach(neighborId => {
+      const tile = this.tiles.get(neighborId);
+      if (tile && !tile.ownerId && tile.terrainType !== 'water') {
+        this.setOwner(tile, player.id);
+        tile.population = STARTING_RING_TILE_POPULATION;
+        this.markTileChanged(tile.id);
+      }
+    });
+    player.population = this.sumPopulation(player.id);
+    // Arrives with an army already trained to the current ratio
+    player.soldiers = player.population * (1 - player.workerRatio);
+    player.workers = player.population - player.soldiers;
+  }
+
+  private sumPopulation(playerId: string): number {
+    return this.getOwnedTiles(playerId).reduce((sum, tile) => sum + tile.population, 0);
+  }
+
+  // Every change of hands goes through here so the per-player index stays
+  // exact; per-tick work then scales with territory, not world size
+  private setOwner(tile: GameTile, ownerId: string | undefined) {
+    if (tile.ownerId === ownerId) return;
+    
+    if (tile.ownerId) {
+      this.ownedTiles.get(tile.ownerId)?.delete(tile.id);
+    }
+    tile.ownerId = ownerId;
+    if (ownerId) {
+      let owned = this.ownedTiles.get(ownerId);
+      if (!owned) {
+        owned = new Set();
+        this.ownedTiles.set(ownerId, owned);
+      }
+      owned.add(tile.id);
+    }
+  }
+
+  // A copy, so callers may hand tiles over while going through them
+  private getOwnedTiles(playerId: string): GameTile[] {
+    return Array.from(this.ownedTiles.get(playerId) ?? [], tileId => this.tiles.get(tileId)!);
+  }
+
+  private placeCapital(player: Player, tile: GameTile) {
+    tile.structureType = 'hq';
+    player.capitalTileId = tile.id;
+    this.markTileChanged(tile.id);
+  }
+
+  // Called once the capital tile has been captured or its HQ destroyed
+  private loseCapital(player: Player) {
+    player.capitalTileId = undefined;
+    
+    const ownedLand = this.getOwnedTiles(player.id).filter(tile => tile.terrainType !== 'water');
+    
+    if (this.settings.capitalLoss === 'eliminate' || ownedLand.length === 0) {
+      this.releaseTerritory(player.id);
+      this.events.push({ type: 'capital_lost', data: { playerId: player.id, eliminated: true } });
+      console.log(`Player ${player.username} was eliminated`);
+      return;
+    }
+    
+    // Fall back to the most populous tile, keeping existing buildings if possible
+    const candidates = ownedLand.some(tile => !tile.structureType)
+      ? ownedLand.filter(tile => !tile.structureType)
+      : ownedLand;
+    const newCapital = candidates.reduce((best, tile) => tile.population > best.population ? tile : best);
+    
+    player.gold *= 1 - CAPITAL_RELOCATION_PENALTY;
+    this.drawPopulation(player, player.population * CAPITAL_RELOCATION_PENALTY);
+    player.soldiers *= 1 - CAPITAL_RELOCATION_PENALTY;
+    this.placeCapital(player, newCapital);
+    
+    this.events.push({
+      type: 'capital_lost',
+      data: { playerId: player.id, eliminated: false, newCapitalTileId: newCapital.id }
+    });
+  }
+
+  // Unclaimed land tile furthest from every existing capital, if any is left
+  private findSpawnTile(): number | undefined {
+    const capitals = Array.from(this.players.values())
+      .map(player => player.capitalTileId)
+      .filter((tileId): tileId is number => tileId !== undefined);
+    
+    const availableTiles = Array.from(this.tiles.values())
+      .filter(tile => !tile.ownerId && tile.terrainType !== 'water')
+      .map(tile => tile.id);
     
     if (availableTiles.length === 0) {
-      // Fallback to any tile
-      return 0;
+      return undefined;
     }
     
-    return availableTiles[Math.floor(Math.random() * availableTiles.length)];
+    if (capitals.length === 0) {
+      return availableTiles[Math.floor(this.rng() * availableTiles.length)];
+    }
+    
+    let bestTileId = availableTiles[0];
+    let bestDistance = -1;
+    availableTiles.forEach(tileId => {
+      const nearest = Math.min(...capitals.map(capitalId => getGreatCircleDistance(this.world, capitalId, tileId)));
+      if (nearest > bestDistance) {
+        bestDistance = nearest;
+        bestTileId = tileId;
+      }
+    });
+    
+    return bestTileId;
   }
 
   removePlayer(playerId: string): boolean {
     const player = this.players.get(playerId);
     if (!player) return false;
     
-    // Remove ownership from all tiles
-    this.tiles.forEach(tile => {
-      if (tile.ownerId === playerId) {
-        tile.ownerId = undefined;
-        tile.population = 0;
+    this.releaseTerritory(playerId);
+    this.players.delete(playerId);
+    return true;
+  }
+
+  // Hands every tile of a player back to nobody; their HQ goes with them
+  private releaseTerritory(playerId: string) {
+    this.getOwnedTiles(playerId).forEach(tile => {
+      this.setOwner(tile, undefined);
+      tile.population = 0;
+      this.cancelConstruction(tile);
+      if (tile.structureType === 'hq') {
+        tile.structureType = undefined;
       }
+      this.markTileChanged(tile.id);
     });
+    this.ownedTiles.delete(playerId);
     
-    this.players.delete(playerId);
-    return true;
+    const player = this.players.get(playerId);
+    if (player) {
+      player.capitalTileId = undefined;
+      player.population = 0;
+      player.soldiers = 0;
+      player.workers = 0;
+    }
   }
 
   selectTile(playerId: string, tileId: number): ActionResult {
@@ -155,51 +384,155 @@ export class GameState {
       return { success: false, error: 'Tile not found' };
     }
     
-    // If tile is already owned by this player, return building options
+    // Building on our own tiles goes through buildStructure
     if (tile.ownerId === playerId) {
-      return { 
-        success: true, 
-        data: { 
-          type: 'building_options',
-          tileId: tileId,
-          canBuildPort: this.isAdjacentToWater(tileId)
-        }
-      };
+      return { success: false, error: 'Tile already belongs to you' };
     }
     
-    // If tile is owned by another player
+    // If tile is owned by another player, attack it
     if (tile.ownerId && tile.ownerId !== playerId) {
-      return { success: false, error: 'Tile owned by another player' };
+      return this.attackTile(playerId, tileId);
     }
     
-    // Cannot claim water tiles
-    if (tile.terrainType === 'water') {
-      return { success: false, error: 'Cannot claim water tiles' };
+    const terrain = TERRAIN_RULES[tile.terrainType];
+    if (!terrain.claimable) {
+      return { success: false, error: `Cannot claim ${tile.terrainType} tiles` };
     }
     
-    // Check adjacency (player must own an adjacent tile)
-    if (!this.isAdjacentToPlayerTerritory(playerId, tileId)) {
-      return { success: false, error: 'Must expand from owned territory' };
+    // Check adjacency (player must own an adjacent tile or reach it by sea)
+    if (!this.isReachableByPlayer(playerId, tileId)) {
+      return { success: false, error: 'Tile is not connected to your territory' };
     }
     
     // Check if player has enough soldiers for expansion
-    const soldiers = Math.floor(player.population * player.workerRatio);
-    const requiredSoldiers = 10; // Base soldier cost for expansion
+    const soldiers = this.getAvailableSoldiers(player);
     
-    if (soldiers < requiredSoldiers) {
-      return { success: false, error: `Need ${requiredSoldiers} soldiers` };
+    if (soldiers < terrain.claimCost) {
+      return { success: false, error: `Need ${terrain.claimCost} soldiers` };
     }
     
     // Perform expansion using soldiers
-    player.population -= requiredSoldiers; // Use soldiers for expansion
-    player.lastActive = Date.now();
+    this.spendSoldiers(player, terrain.claimCost);
+    player.lastActiveTick = this.currentTick;
     
-    tile.ownerId = playerId;
-    tile.population = requiredSoldiers; // Soldiers become population on new tile
+    this.setOwner(tile, playerId);
+    tile.population = terrain.claimCost; // Soldiers settle the new tile
+    player.population += terrain.claimCost;
+    this.markTileChanged(tileId);
     
     return { success: true };
   }
 
+  attackTile(playerId: string, tileId: number, soldiers?: number): ActionResult {
+    const player = this.players.get(playerId);
+    const tile = this.tiles.get(tileId);
+    
+    if (!player) {
+      return { success: false, error: 'Player not found' };
+    }
+    
+    if (!tile) {
+      return { success: false, error: 'Tile not found' };
+    }
+    
+    if (!tile.ownerId || tile.ownerId === playerId) {
+      return { success: false, error: 'Tile is not owned by an enemy' };
+    }
+    
+    if (!this.isReachableByPlayer(playerId, tileId)) {
+      return { success: false, error: 'Tile is not connected to your territory' };
+    }
+    
+    const available = this.getAvailableSoldiers(player);
+    const committed = Math.min(
+      available,
+      Math.floor(soldiers ?? available * DEFAULT_ATTACK_COMMITMENT)
+    );
+    
+    if (committed < MIN_ATTACK_SOLDIERS) {
+      return { success: false, error: `Need ${MIN_ATTACK_SOLDIERS} soldiers to attack` };
+    }
+    
+    const defenderId = tile.ownerId;
+    const defender = this.players.get(defenderId);
+    const defenseMultiplier = this.getDefenseMultiplier(tile);
+    const defenseStrength = tile.population * defenseMultiplier;
+    
+    player.lastActiveTick = this.currentTick;
+    
+    if (committed > defenseStrength) {
+      // Attack wins: every point of defence strength costs one attacker,
+      // survivors garrison the captured tile
+      const attackerLosses = Math.ceil(defenseStrength);
+      const defenderLosses = tile.population;
+      
+      // The whole force marches out; the survivors move into the tile
+      this.spendSoldiers(player, committed);
+      if (defender) {
+        defender.population = Math.max(0, defender.population - defenderLosses);
+      }
+      
+      this.setOwner(tile, playerId);
+      tile.population = committed - attackerLosses;
+      player.population += tile.population;
+      this.cancelConstruction(tile);
+      if (tile.structureType === 'hq') {
+        // HQs are razed, not taken over
+        tile.structureType = undefined;
+      }
+      this.markTileChanged(tileId);
+      
+      if (defender?.capitalTileId === tileId) {
+        this.loseCapital(defender);
+      }
+      
+      return {
+        success: true,
+        data: { type: 'attack', victory: true, tileId, defenderId, attackerLosses, defenderLosses, tile }
+      };
+    }
+    
+    // Attack repelled: all committed soldiers are lost, the defenders lose
+    // as many troops as the attack could break through their modifiers
+    const attackerLosses = committed;
+    const defenderLosses = Math.min(tile.population, committed / defenseMultiplier);
+    
+    this.spendSoldiers(player, attackerLosses);
+    tile.population -= defenderLosses;
+    this.markTileChanged(tileId);
+    if (defender) {
+      defender.population = Math.max(0, defender.population - defenderLosses);
+    }
+    
+    return {
+      success: true,
+      data: { type: 'attack', victory: false, tileId, defenderId, attackerLosses, defenderLosses, tile }
+    };
+  }
+
+  private getAvailableSoldiers(player: Player): number {
+    return Math.floor(player.soldiers);
+  }
+
+  // Soldiers leave the population too, taken evenly from the empire's tiles
+  private spendSoldiers(player: Player, amount: number) {
+    this.drawPopulation(player, amount);
+    player.soldiers = Math.max(0, player.soldiers - amount);
+    player.workers = Math.max(0, player.population - player.soldiers);
+  }
+
+  private getDefenseMultiplier(tile: GameTile): number {
+    let multiplier = TERRAIN_RULES[tile.terrainType].defense;
+    multiplier *= this.getActiveEffects(tile)?.defense ?? 1;
+    
+    const owner = tile.ownerId ? this.players.get(tile.ownerId) : undefined;
+    if (owner?.capitalTileId !== undefined &&
+        getGreatCircleDistance(this.world, owner.capitalTileId, tile.id) <= HQ_DEFENSE_RADIUS_TILES * getTileSpacing(this.world)) {
+      multiplier *= HQ_DEFENSE_BONUS;
+    }
+    return multiplier;
+  }
+
   adjustWorkerRatio(playerId: string, ratio: number): ActionResult {
     const player = this.players.get(playerId);
     
@@ -212,13 +545,13 @@ export class GameState {
     }
     
     player.workerRatio = ratio;
-    player.lastActive = Date.now();
+    player.lastActiveTick = this.currentTick;
     
     return { success: true };
   }
 
   private isAdjacentToWater(tileId: number): boolean {
-    const adjacentTileIds = this.adjacencyMap.get(tileId) || [];
+    const adjacentTileIds = this.getNeighbors(tileId);
     
     return adjacentTileIds.some(adjTileId => {
       const adjTile = this.tiles.get(adjTileId);
@@ -226,7 +559,7 @@ export class GameState {
     });
   }
 
-  buildStructure(playerId: string, tileId: number, structureType: 'city' | 'port' | 'missile_silo'): ActionResult {
+  buildStructure(playerId: string, tileId: number, structureType: StructureType): ActionResult {
     const player = this.players.get(playerId);
     const tile = this.tiles.get(tileId);
     
@@ -243,127 +576,561 @@ export class GameState {
       return { success: false, error: 'You do not own this tile' };
     }
     
-    // Check if player has enough gold
-    const buildingCost = 100;
-    if (player.gold < buildingCost) {
-      return { success: false, error: `Need ${buildingCost} gold` };
-    }
-    
-    // Check structure-specific requirements
-    if (structureType === 'port' && !this.isAdjacentToWater(tileId)) {
-      return { success: false, error: 'Port must be adjacent to water' };
-    }
+    const built: Partial<Record<StructureType, number>> = {};
+    const planned: Partial<Record<StructureType, number>> = {};
+    this.getOwnedTiles(playerId).forEach(owned => {
+      if (owned.structureType) {
+        built[owned.structureType] = (built[owned.structureType] ?? 0) + 1;
+        planned[owned.structureType] = (planned[owned.structureType] ?? 0) + 1;
+      }
+      if (owned.construction) {
+        planned[owned.construction] = (planned[owned.construction] ?? 0) + 1;
+      }
+    });
     
-    // Check if tile already has a structure
-    if (tile.structureType) {
-      return { success: false, error: 'Tile already has a structure' };
+    const error = getBuildError(structureType, {
+      terrainType: tile.terrainType,
+      coastal: this.isAdjacentToWater(tileId),
+      occupied: !!tile.structureType || !!tile.construction,
+      gold: player.gold,
+      built,
+      planned
+    });
+    if (error) {
+      return { success: false, error };
     }
     
-    // Build the structure
-    player.gold -= buildingCost;
-    player.lastActive = Date.now();
-    tile.structureType = structureType;
+    // Paid up front; the building appears once construction finishes
+    const building = BUILDINGS[structureType];
+    player.gold -= building.cost;
+    player.lastActiveTick = this.currentTick;
+    tile.construction = structureType;
+    this.constructions.set(tileId, this.currentTick + Math.round(building.buildSeconds * TICK_RATE));
+    this.markTileChanged(tileId);
     
     return { success: true, data: { tile } };
   }
 
-  private isAdjacentToPlayerTerritory(playerId: string, tileId: number): boolean {
-    // For the first tile (spawn), always allow
-    const playerTiles = Array.from(this.tiles.values())
-      .filter(tile => tile.ownerId === playerId);
-    
-    if (playerTiles.length === 0) {
-      return true; // First tile
+  private completeConstructions() {
+    this.constructions.forEach((completesAtTick, tileId) => {
+      if (this.currentTick < completesAtTick) return;
+      
+      const tile = this.tiles.get(tileId)!;
+      tile.structureType = tile.construction;
+      tile.construction = undefined;
+      this.constructions.delete(tileId);
+      // New silos start fully stocked
+      this.silos.delete(tileId);
+      this.markTileChanged(tileId);
+    });
+  }
+
+  // EMP'd buildings come back online, or are forgotten once destroyed
+  private restoreDisabledStructures() {
+    this.disabledTiles.forEach((restoresAtTick, tileId) => {
+      const tile = this.tiles.get(tileId)!;
+      if (this.currentTick < restoresAtTick && tile.structureType) return;
+      
+      tile.disabled = undefined;
+      this.disabledTiles.delete(tileId);
+      this.markTileChanged(tileId);
+    });
+  }
+
+  // What the tile's building currently does; nothing while it is disabled
+  private getActiveEffects(tile: GameTile): BuildingEffects | undefined {
+    return tile.structureType && !tile.disabled ? BUILDINGS[tile.structureType].effects : undefined;
+  }
+
+  // Half-finished buildings are lost when their tile changes hands or is hit
+  private cancelConstruction(tile: GameTile) {
+    if (tile.construction) {
+      tile.construction = undefined;
+      this.constructions.delete(tile.id);
+      this.markTileChanged(tile.id);
     }
+  }
+
+  private isAdjacentToPlayerTerritory(playerId: string, tileId: number): boolean {
+    const adjacentTileIds = this.getNeighbors(tileId);
     
-    // For now, allow expansion to any tile (simplified adjacency)
-    // In a real implementation, this would check actual geodesic adjacency
-    return true;
+    return adjacentTileIds.some(adjTileId => this.tiles.get(adjTileId)?.ownerId === playerId);
+  }
+
+  private isReachableByPlayer(playerId: string, tileId: number): boolean {
+    return this.isAdjacentToPlayerTerritory(playerId, tileId) ||
+      this.canProjectPowerTo(playerId, tileId);
   }
 
-  update() {
-    const now = Date.now();
-    const deltaTime = now - this.lastUpdate;
-    this.lastUpdate = now;
+  private canProjectPowerTo(playerId: string, tileId: number): boolean {
+    // Buildings with a power projection range reach tiles across open water.
+    // Walk outward over water from the target and look for one on the shore.
+    const maxRange = MAX_POWER_PROJECTION_RANGE;
+    const visited = new Set<number>([tileId]);
+    let frontier = [tileId];
     
-    // Update each player's economy
-    this.players.forEach(player => {
-      const ownedTiles = Array.from(this.tiles.values())
-        .filter(tile => tile.ownerId === player.id);
+    for (let distance = 1; distance <= maxRange && frontier.length > 0; distance++) {
+      const nextFrontier: number[] = [];
       
-      // Population growth (per second, scaled by deltaTime)
-      const baseGrowth = ownedTiles.length * 0.01;
-      const cityBonus = ownedTiles.filter(tile => tile.hasCity).length * 0.05;
-      const populationGrowth = (baseGrowth + cityBonus) * (deltaTime / 1000);
+      frontier.forEach(currentId => {
+        this.getNeighbors(currentId).forEach(adjTileId => {
+          if (visited.has(adjTileId)) return;
+          visited.add(adjTileId);
+          
+          const adjTile = this.tiles.get(adjTileId);
+          if (adjTile?.terrainType === 'water') {
+            nextFrontier.push(adjTileId);
+          }
+        });
+      });
       
-      // Gold generation from workers
-      const workers = player.population * (1 - player.workerRatio);
-      const goldPerSecond = workers * 0.1;
-      const goldGrowth = goldPerSecond * (deltaTime / 1000);
+      const projected = nextFrontier.some(waterTileId =>
+        this.getNeighbors(waterTileId).some(shoreTileId => {
+          const shoreTile = this.tiles.get(shoreTileId);
+          if (shoreTile?.ownerId !== playerId) return false;
+          
+          const range = this.getActiveEffects(shoreTile)?.powerProjectionRange;
+          return range !== undefined && distance <= range;
+        })
+      );
       
-      // Update player
-      player.population += populationGrowth;
-      player.gold += goldGrowth;
+      if (projected) {
+        return true;
+      }
       
-      // Distribute population to tiles
-      if (ownedTiles.length > 0) {
-        const populationPerTile = player.population / ownedTiles.length;
-        ownedTiles.forEach(tile => {
-          tile.population = populationPerTile;
-        });
+      frontier = nextFrontier;
+    }
+    
+    return false;
+  }
+
+  // Advance the simulation by exactly one tick
+  step() {
+    this.currentTick++;
+    
+    // Outside the playing phase only the match clock runs
+    this.updateMatchPhase();
+    if (this.match.phase !== 'playing') {
+      return;
+    }
+    
+    const deltaSeconds = TICK_DURATION_MS / 1000;
+    
+    this.completeConstructions();
+    this.restoreDisabledStructures();
+    this.interceptMissiles();
+    this.advanceMissiles();
+    this.updateRadiation(deltaSeconds);
+    this.updatePopulation(deltaSeconds);
+    
+    // Workers earn what the land they live on yields
+    this.players.forEach(player => {
+      if (player.population > 0) {
+        const workerShare = player.workers / player.population;
+        const goldPerSecond = this.getOwnedTiles(player.id).reduce((sum, tile) => {
+          const buildingYield = this.getActiveEffects(tile)?.goldYield ?? 1;
+          return sum + tile.population * workerShare * WORKER_GOLD_PER_SECOND *
+            TERRAIN_RULES[tile.terrainType].goldYield * buildingYield;
+        }, 0);
+        player.gold += goldPerSecond * deltaSeconds;
       }
+      this.updateArmy(player, deltaSeconds);
     });
     
+    if (this.currentTick % NUKE_TOKEN_INTERVAL_TICKS === 0) {
+      this.awardNukeTokens();
+    }
+    
     // Automatic territory expansion every 0.4 seconds
-    if (now - this.lastExpansionTime >= 400) {
+    if (this.currentTick % EXPANSION_INTERVAL_TICKS === 0) {
       this.performAutomaticExpansion();
-      this.lastExpansionTime = now;
     }
     
-    // Remove inactive players (30 minutes of inactivity)
-    const inactivityThreshold = 30 * 60 * 1000;
+    // Remove inactive players
     this.players.forEach((player, playerId) => {
-      if (now - player.lastActive > inactivityThreshold) {
+      if (this.currentTick - player.lastActiveTick > INACTIVITY_TIMEOUT_TICKS) {
         console.log(`Removing inactive player: ${player.username}`);
         this.removePlayer(playerId);
       }
     });
+    
+    if (this.currentTick % VICTORY_CHECK_INTERVAL_TICKS === 0) {
+      this.checkVictory();
+    }
   }
 
+  // Population lives on tiles: each grows logistically towards its cap and
+  // people drift from fuller to emptier tiles of the same empire. Empire
+  // totals are the sum of their tiles.
+  private updatePopulation(deltaSeconds: number) {
+    const settled = Array.from(this.players.keys()).flatMap(playerId => this.getOwnedTiles(playerId));
+    // Indexed by tile id and reused every tick; a Map here dominated the tick
+    const next = this.nextPopulation;
+    const caps = this.populationCaps;
+    settled.forEach(tile => {
+      next[tile.id] = tile.population;
+      caps[tile.id] = getPopulationCap(tile.terrainType, tile.structureType, tile.disabled);
+    });
+    
+    settled.forEach(tile => {
+      const cap = caps[tile.id];
+      let growth = cap > 0
+        ? TERRAIN_RULES[tile.terrainType].growthRate * tile.population * (1 - tile.population / cap)
+        : -tile.population; // Nobody can stay where nothing grows
+      if (growth > 0 && tile.radiation) {
+        // Fallout keeps people from settling until it fades
+        growth *= 1 - tile.radiation;
+      }
+      next[tile.id] += growth * deltaSeconds;
+      
+      // Each shared border is visited once, from its lower tile id
+      const neighbors = this.getNeighbors(tile.id);
+      for (let i = 0; i < neighbors.length; i++) {
+        const neighborId = neighbors[i];
+        if (neighborId < tile.id) continue;
+        const neighbor = this.tiles.get(neighborId)!;
+        if (neighbor.ownerId !== tile.ownerId) continue;
+        
+        // Measured in how full each tile is, so small caps are not flooded
+        const neighborCap = caps[neighborId];
+        if (cap <= 0 || neighborCap <= 0) continue;
+        let flow = MIGRATION_RATE * (tile.population / cap - neighbor.population / neighborCap)
+          * Math.min(cap, neighborCap) * deltaSeconds;
+        // Nobody moves into fallout willingly
+        flow *= 1 - ((flow > 0 ? neighbor.radiation : tile.radiation) ?? 0);
+        next[tile.id] -= flow;
+        next[neighborId] += flow;
+      }
+    });
+    
+    this.players.forEach(player => player.population = 0);
+    settled.forEach(tile => {
+      const population = Math.max(0, next[tile.id]);
+      // Only whole-unit changes are worth syncing
+      if (Math.round(tile.population) !== Math.round(population)) {
+        this.markTileChanged(tile.id);
+      }
+      tile.population = population;
+      this.players.get(tile.ownerId!)!.population += population;
+    });
+  }
+
+  // Pays the army and moves the soldier pool towards the worker ratio, as fast
+  // as training allows and the treasury can pay for
+  private updateArmy(player: Player, deltaSeconds: number) {
+    const upkeep = player.soldiers * SOLDIER_UPKEEP_PER_SECOND * deltaSeconds;
+    if (player.gold >= upkeep) {
+      player.gold -= upkeep;
+    } else {
+      player.gold = 0;
+      player.soldiers -= player.soldiers * DESERTION_RATE * deltaSeconds;
+    }
+    
+    const target = player.population * (1 - player.workerRatio);
+    const maxChange = Math.max(MIN_TRAINING_PER_SECOND, player.population * TRAINING_RATE) * deltaSeconds;
+    if (target > player.soldiers) {
+      const trained = Math.min(target - player.soldiers, maxChange, player.gold / SOLDIER_TRAINING_COST);
+      player.soldiers += trained;
+      player.gold -= trained * SOLDIER_TRAINING_COST;
+    } else {
+      // Standing soldiers down is free but just as gradual
+      player.soldiers -= Math.min(player.soldiers - target, maxChange);
+    }
+    
+    // Casualties among the population take soldiers with them
+    player.soldiers = Math.min(player.soldiers, player.population);
+    player.workers = player.population - player.soldiers;
+  }
+
+  // Takes people from every tile of the empire in proportion to what it holds
+  private drawPopulation(player: Player, amount: number) {
+    if (amount <= 0 || player.population <= 0) return;
+    
+    const keep = Math.max(0, 1 - amount / player.population);
+    this.getOwnedTiles(player.id).forEach(tile => {
+      tile.population *= keep;
+      this.markTileChanged(tile.id);
+    });
+    player.population *= keep;
+  }
+
+  private updateMatchPhase() {
+    const { phase, phaseEndsAtTick } = this.match;
+    const phaseOver = phaseEndsAtTick !== undefined && this.currentTick >= phaseEndsAtTick;
+    
+    if (phase === 'lobby') {
+      const enoughPlayers = this.players.size >= this.settings.minPlayers;
+      if (enoughPlayers && phaseEndsAtTick === undefined) {
+        this.setMatchState({
+          phase: 'lobby',
+          phaseEndsAtTick: this.currentTick + this.settings.countdownSeconds * TICK_RATE
+        });
+      } else if (!enoughPlayers && phaseEndsAtTick !== undefined) {
+        // Someone left during the countdown
+        this.setMatchState({ phase: 'lobby' });
+      } else if (phaseOver) {
+        this.setMatchState({
+          phase: 'spawning',
+          phaseEndsAtTick: this.currentTick + this.settings.spawnSeconds * TICK_RATE
+        });
+      }
+    } else if (phase === 'spawning' && phaseOver) {
+      // Whoever has not picked a capital gets the most remote spot left
+      this.players.forEach(player => {
+        if (player.capitalTileId !== undefined) return;
+        
+        const tileId = this.findSpawnTile();
+        if (tileId === undefined) {
+          // Left without land, like an eliminated player
+          console.log(`No free land left for ${player.username}`);
+          return;
+        }
+        this.claimStartingTerritory(player, tileId);
+      });
+      this.startMatch();
+    } else if (phase === 'playing' && phaseOver) {
+      this.endMatch('time_limit');
+    }
+  }
+
+  private startMatch() {
+    const { timeLimitSeconds } = this.settings.victory;
+    this.startingPlayerCount = this.players.size;
+    
+    // Nobody has been idle while waiting in the lobby
+    this.players.forEach(player => {
+      player.lastActiveTick = this.currentTick;
+    });
+    
+    this.setMatchState({
+      phase: 'playing',
+      phaseEndsAtTick: timeLimitSeconds !== undefined
+        ? this.currentTick + timeLimitSeconds * TICK_RATE
+        : undefined
+    });
+  }
+
+  private checkVictory() {
+    const { landShare, lastStanding } = this.settings.victory;
+    const standings = this.getStandings();
+    const alive = standings.filter(standing => standing.territory > 0);
+    
+    if (alive.length === 0) {
+      this.endMatch('abandoned');
+      return;
+    }
+    
+    const largest = alive.reduce((best, standing) => standing.territory > best.territory ? standing : best);
+    if (landShare !== undefined && largest.territory >= landShare * this.landTileCount) {
+      this.endMatch('land_share', largest.playerId);
+    } else if (lastStanding && this.startingPlayerCount > 1 && alive.length === 1) {
+      this.endMatch('last_standing', alive[0].playerId);
+    }
+  }
+
+  private endMatch(reason: MatchEndReason, winnerId?: string) {
+    const standings = this.getStandings();
+    // Running out of time crowns whoever leads
+    const winner = reason === 'time_limit'
+      ? standings[0]
+      : standings.find(standing => standing.playerId === winnerId);
+    
+    this.setMatchState({
+      phase: 'ended',
+      phaseEndsAtTick: this.currentTick + this.settings.endedSeconds * TICK_RATE
+    });
+    this.events.push({
+      type: 'match_ended',
+      data: { reason, winnerId: winner?.playerId, standings }
+    });
+    
+    console.log(`Match ended (${reason}), winner: ${winner?.username ?? 'none'}`);
+  }
+
+  private setMatchState(match: MatchState) {
+    this.match = match;
+    this.events.push({
+      type: 'match_phase',
+      data: { match, tick: this.currentTick }
+    });
+  }
+
+  // Players ranked by score, best first
+  getStandings(): Standing[] {
+    return Array.from(this.players.values())
+      .map(player => {
+        const owned = this.getOwnedTiles(player.id).filter(tile => tile.terrainType !== 'water').length;
+        return {
+          playerId: player.id,
+          username: player.username,
+          color: player.color,
+          territory: owned,
+          gold: Math.floor(player.gold),
+          population: Math.floor(player.population),
+          score: Math.floor(player.gold + player.population + owned * 10)
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  setExpansionPolicy(playerId: string, policy: ExpansionPolicy): ActionResult {
+    const player = this.players.get(playerId);
+    
+    if (!player) {
+      return { success: false, error: 'Player not found' };
+    }
+    
+    const { focus } = policy;
+    if (focus.type === 'tile' && !this.tiles.has(focus.tileId)) {
+      return { success: false, error: 'Tile not found' };
+    }
+    
+    if (policy.soldierBudget < 0) {
+      return { success: false, error: 'Soldier budget cannot be negative' };
+    }
+    
+    const { claimsPerInterval } = policy;
+    if (!Number.isInteger(claimsPerInterval) || claimsPerInterval < 0 || claimsPerInterval > MAX_CLAIMS_PER_INTERVAL) {
+      return { success: false, error: `Claims per interval must be a whole number from 0 to ${MAX_CLAIMS_PER_INTERVAL}` };
+    }
+    
+    // Replaced rather than mutated so the player delta picks it up
+    player.expansion = { focus, soldierBudget: Math.floor(policy.soldierBudget), claimsPerInterval };
+    player.lastActiveTick = this.currentTick;
+    
+    return { success: true };
+  }
+
+  // Every empire claims one frontier tile per interval for free. On top of
+  // that, the soldier budget buys extra claims at the terrain's claim cost.
   private performAutomaticExpansion() {
     this.players.forEach(player => {
-      const ownedTiles = Array.from(this.tiles.values())
-        .filter(tile => tile.ownerId === player.id);
+      const candidates = this.getExpansionCandidates(player.id);
       
-      // Find all adjacent land tiles that can be expanded to
-      const expansionCandidates: number[] = [];
-      
-      ownedTiles.forEach(ownedTile => {
-        const adjacentTileIds = this.adjacencyMap.get(ownedTile.id) || [];
+      for (let i = 0; i <= player.expansion.claimsPerInterval && candidates.size > 0; i++) {
+        // Without a budget only the free claim happens
+        if (i > 0 && Math.min(player.expansion.soldierBudget, this.getAvailableSoldiers(player)) <= 0) {
+          break;
+        }
+        const tileId = this.pickExpansionTile(player, Array.from(candidates));
+        const tile = this.tiles.get(tileId)!;
         
-        adjacentTileIds.forEach(tileId => {
-          const tile = this.tiles.get(tileId);
-          if (tile && 
-              !tile.ownerId && 
-              tile.terrainType !== 'water' && 
-              !expansionCandidates.includes(tileId)) {
-            expansionCandidates.push(tileId);
+        if (i === 0) {
+          tile.population = AUTO_EXPANSION_TILE_POPULATION;
+          player.population += AUTO_EXPANSION_TILE_POPULATION;
+        } else {
+          // Budgeted claims are paid for with soldiers, who settle the tile
+          const cost = TERRAIN_RULES[tile.terrainType].claimCost;
+          if (cost > Math.min(player.expansion.soldierBudget, this.getAvailableSoldiers(player))) {
+            break;
+          }
+          this.spendSoldiers(player, cost);
+          tile.population = cost;
+          player.population += cost;
+          player.expansion = {
+            ...player.expansion,
+            soldierBudget: player.expansion.soldierBudget - cost
+          };
+        }
+        this.setOwner(tile, player.id);
+        candidates.delete(tileId);
+        this.markTileChanged(tileId);
+        
+        // The new tile pushes the frontier out for the next claim
+        this.getNeighbors(tileId).forEach(neighborId => {
+          const neighbor = this.tiles.get(neighborId);
+          if (neighbor && !neighbor.ownerId && TERRAIN_RULES[neighbor.terrainType].claimable) {
+            candidates.add(neighborId);
           }
         });
-      });
+      }
       
-      // Automatically expand to one random candidate if any exist
-      if (expansionCandidates.length > 0) {
-        const randomTileId = expansionCandidates[Math.floor(Math.random() * expansionCandidates.length)];
-        const tile = this.tiles.get(randomTileId);
-        
-        if (tile) {
-          tile.ownerId = player.id;
-          tile.population = 5; // Small population for automatic expansion
-          console.log(`Player ${player.username} automatically expanded to tile ${randomTileId} (${tile.terrainType})`);
+      // A reached target has nothing left to pull towards
+      const { focus } = player.expansion;
+      if (focus.type === 'tile' && this.tiles.get(focus.tileId)?.ownerId === player.id) {
+        player.expansion = { ...player.expansion, focus: DEFAULT_EXPANSION_POLICY.focus };
+      }
+    });
+  }
+
+  // Unowned land bordering the player's territory, in tile order
+  private getExpansionCandidates(playerId: string): Set<number> {
+    const candidates = new Set<number>();
+    
+    this.getOwnedTiles(playerId).forEach(ownedTile => {
+      this.getNeighbors(ownedTile.id).forEach(tileId => {
+        const tile = this.tiles.get(tileId);
+        if (tile && !tile.ownerId && TERRAIN_RULES[tile.terrainType].claimable) {
+          candidates.add(tileId);
         }
+      });
+    });
+    
+    return candidates;
+  }
+
+  private pickExpansionTile(player: Player, candidates: number[]): number {
+    const pickRandom = (tileIds: number[]) => tileIds[Math.floor(this.rng() * tileIds.length)];
+    const { focus } = player.expansion;
+    
+    switch (focus.type) {
+      case 'tile':
+        return this.closestTile(candidates, getTileCenter(this.world, focus.tileId));
+      case 'direction': {
+        const heading = player.capitalTileId !== undefined
+          ? this.getHeadingPoint(player.capitalTileId, focus.bearing)
+          : undefined;
+        return heading ? this.closestTile(candidates, heading) : pickRandom(candidates);
+      }
+      case 'terrain': {
+        const matching = candidates.filter(tileId => focus.terrain === 'coast'
+          ? this.isAdjacentToWater(tileId)
+          : this.tiles.get(tileId)!.terrainType === focus.terrain);
+        return pickRandom(matching.length > 0 ? matching : candidates);
+      }
+      default:
+        return pickRandom(candidates);
+    }
+  }
+
+  private closestTile(tileIds: number[], point: Vec3): number {
+    let best = tileIds[0];
+    let bestDot = -Infinity;
+    tileIds.forEach(tileId => {
+      const center = getTileCenter(this.world, tileId);
+      // On a unit sphere the largest dot product is the shortest great-circle distance
+      const dot = center[0] * point[0] + center[1] * point[1] + center[2] * point[2];
+      if (dot > bestDot) {
+        bestDot = dot;
+        best = tileId;
       }
     });
+    return best;
+  }
+
+  // The point a quarter of the globe away from a tile along a compass bearing.
+  // Undefined at the poles, where north is not defined.
+  private getHeadingPoint(fromTileId: number, bearing: number): Vec3 | undefined {
+    const [x, y, z] = getTileCenter(this.world, fromTileId);
+    // Local north is the world Y axis projected onto the tangent plane
+    const northLength = Math.hypot(-y * x, 1 - y * y, -y * z);
+    if (northLength < 1e-6) {
+      return undefined;
+    }
+    const north: Vec3 = [-y * x / northLength, (1 - y * y) / northLength, -y * z / northLength];
+    // East is the center crossed with north
+    const east: Vec3 = [
+      y * north[2] - z * north[1],
+      z * north[0] - x * north[2],
+      x * north[1] - y * north[0]
+    ];
+    
+    const radians = bearing * Math.PI / 180;
+    return [
+      Math.cos(radians) * north[0] + Math.sin(radians) * east[0],
+      Math.cos(radians) * north[1] + Math.sin(radians) * east[1],
+      Math.cos(radians) * north[2] + Math.sin(radians) * east[2]
+    ];
   }
 
   // Getters
@@ -387,11 +1154,37 @@ export class GameState {
     return this.missiles;
   }
 
+  getMatch(): MatchState {
+    return this.match;
+  }
+
+  // Final standings have been on screen long enough, time for a new world
+  isReadyForReset(): boolean {
+    return this.match.phase === 'ended' &&
+      this.match.phaseEndsAtTick !== undefined &&
+      this.currentTick >= this.match.phaseEndsAtTick;
+  }
+
+  // Match events since the last call, oldest first
+  drainEvents(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  getTick(): number {
+    return this.currentTick;
+  }
+
   getGameTime(): number {
-    return Date.now() - this.gameStartTime;
+    return this.currentTick * TICK_DURATION_MS;
+  }
+
+  getSeed(): number {
+    return this.world.seed;
   }
 
-  launchMissile(playerId: string, fromTileId: number, toTileId: number): ActionResult {
+  launchMissile(playerId: string, fromTileId: number, toTileId: number, weapon: WeaponType = 'conventional'): ActionResult {
     const player = this.players.get(playerId);
     const fromTile = this.tiles.get(fromTileId);
     const toTile = this.tiles.get(toTileId);
@@ -406,59 +1199,386 @@ export class GameState {
     
     // Check if player owns the launching tile and it has a missile silo
     if (fromTile.ownerId !== playerId || fromTile.structureType !== 'missile_silo') {
-      return { success: false, error: 'No missile silo at launch location' };
+      return { success: false, code: 'NO_SILO', error: 'No missile silo at launch location' };
     }
     
-    // Generate missile trajectory along sphere surface
-    const fromTileData = this.tileData.find(t => t.id === fromTileId);
-    const toTileData = this.tileData.find(t => t.id === toTileId);
+    if (fromTile.disabled) {
+      return { success: false, code: 'STRUCTURE_DISABLED', error: 'Silo is knocked out by an EMP' };
+    }
+    
+    const rules = WEAPONS[weapon];
+    const spacing = getTileSpacing(this.world);
+    const distance = getGreatCircleDistance(this.world, fromTileId, toTileId);
+    if (distance > rules.rangeTiles * spacing) {
+      return { success: false, code: 'OUT_OF_RANGE', error: `Target is beyond ${rules.rangeTiles} tiles` };
+    }
     
-    if (!fromTileData || !toTileData) {
-      return { success: false, error: 'Tile data not found' };
+    if (rules.requiresNukeToken && player.nukeTokens < 1) {
+      return { success: false, code: 'NO_NUKE_TOKEN', error: 'No enriched warhead available' };
     }
     
-    const trajectory = this.calculateSphericalTrajectory(fromTileData.center, toTileData.center);
-    const travelTime = 3000; // 3 seconds travel time
+    const silo = this.getSiloState(fromTileId);
+    const readyAtTick = silo.readyAtTick[weapon] ?? 0;
+    if (this.currentTick < readyAtTick) {
+      const seconds = Math.ceil((readyAtTick - this.currentTick) / TICK_RATE);
+      return { success: false, code: 'SILO_COOLDOWN', error: `${rules.name} ready in ${seconds}s` };
+    }
+    
+    if (silo.rounds === 0) {
+      const seconds = Math.ceil((silo.reloadAtTick! - this.currentTick) / TICK_RATE);
+      return { success: false, code: 'MAGAZINE_EMPTY', error: `Silo reloads in ${seconds}s` };
+    }
     
+    if (player.gold < rules.cost) {
+      return { success: false, code: 'INSUFFICIENT_GOLD', error: `Need ${rules.cost} gold` };
+    }
+    
+    player.gold -= rules.cost;
+    if (rules.requiresNukeToken) {
+      player.nukeTokens--;
+    }
+    player.lastActiveTick = this.currentTick;
+    silo.rounds--;
+    silo.readyAtTick[weapon] = this.currentTick + rules.cooldownSeconds * TICK_RATE;
+    silo.reloadAtTick ??= this.currentTick + SILO_RULES.reloadSeconds * TICK_RATE;
+    
+    // Flight time follows the distance along the surface
+    const flightSeconds = Math.max(
+      rules.minFlightSeconds,
+      distance / (rules.speedTilesPerSecond * spacing)
+    );
+    
+    // Generate missile trajectory along sphere surface
+    const trajectory = this.calculateSphericalTrajectory(
+      getTileCenter(this.world, fromTileId),
+      getTileCenter(this.world, toTileId)
+    );
     const missile: Missile = {
-      id: `missile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: this.createEntityId('missile'),
+      weapon,
       fromTileId,
       toTileId,
       playerId,
-      launchTime: Date.now(),
-      travelTime,
+      launchTick: this.currentTick,
+      travelTicks: Math.round(flightSeconds * TICK_RATE),
       trajectory
     };
     
     this.missiles.set(missile.id, missile);
     
+    if (weapon === 'nuke') {
+      this.events.push({
+        type: 'nuke_warning',
+        data: {
+          missileId: missile.id,
+          playerId,
+          toTileId,
+          impactTick: missile.launchTick + missile.travelTicks,
+          tick: this.currentTick
+        }
+      });
+      console.log(`Player ${player.username} launched a nuke at tile ${toTileId}`);
+    }
+    
     return { success: true, data: { missile } };
   }
 
-  impactMissile(missileId: string): ActionResult {
-    const missile = this.missiles.get(missileId);
+  // Silos are tracked lazily, restocking one missile per reload period
+  private getSiloState(tileId: number): SiloState {
+    let silo = this.silos.get(tileId);
+    if (!silo) {
+      silo = { rounds: SILO_RULES.magazineSize, readyAtTick: {} };
+      this.silos.set(tileId, silo);
+    }
     
-    if (!missile) {
-      return { success: false, error: 'Missile not found' };
+    while (silo.reloadAtTick !== undefined && silo.reloadAtTick <= this.currentTick) {
+      silo.rounds++;
+      silo.reloadAtTick = silo.rounds < SILO_RULES.magazineSize
+        ? silo.reloadAtTick + SILO_RULES.reloadSeconds * TICK_RATE
+        : undefined;
     }
+    return silo;
+  }
+
+  // Lands every missile whose flight time is up
+  private advanceMissiles() {
+    this.missiles.forEach(missile => {
+      if (this.currentTick >= missile.launchTick + missile.travelTicks) {
+        this.impactMissile(missile);
+      }
+    });
+  }
+
+  private impactMissile(missile: Missile) {
+    this.missiles.delete(missile.id);
+    this.samEngagements.delete(missile.id);
     
     const targetTile = this.tiles.get(missile.toTileId);
-    if (!targetTile) {
-      return { success: false, error: 'Target tile not found' };
+    if (!targetTile) return;
+    
+    const effect = WEAPONS[missile.weapon].effect;
+    switch (effect.kind) {
+      case 'strike':
+        this.strikeTile(targetTile, effect.populationLoss, effect.ignoresDefense);
+        break;
+      case 'cluster': {
+        // Bomblets scatter over distinct tiles, the target included
+        const area = this.getTileRings(targetTile.id, effect.rings).flat();
+        for (let i = 0; i < effect.submunitions && area.length > 0; i++) {
+          const [tileId] = area.splice(Math.floor(this.rng() * area.length), 1);
+          this.strikeTile(this.tiles.get(tileId)!, effect.populationLoss, false);
+        }
+        break;
+      }
+      case 'emp': {
+        const restoresAtTick = this.currentTick + Math.round(effect.disableSeconds * TICK_RATE);
+        this.getTileRings(targetTile.id, effect.rings).flat().forEach(tileId => {
+          const tile = this.tiles.get(tileId)!;
+          if (!tile.structureType) return;
+          tile.disabled = true;
+          this.disabledTiles.set(tileId, Math.max(this.disabledTiles.get(tileId) ?? 0, restoresAtTick));
+          this.markTileChanged(tileId);
+        });
+        break;
+      }
+      case 'nuke':
+        this.detonateNuke(targetTile);
+        break;
     }
     
-    // Destroy any structure on the target tile
-    if (targetTile.structureType) {
-      targetTile.structureType = undefined;
+    this.events.push({
+      type: 'missile_impact',
+      data: { missileId: missile.id, tileId: targetTile.id, tile: targetTile }
+    });
+  }
+
+  // A building survives a hit with odds that grow with the tile's defence
+  private strikeTile(tile: GameTile, populationLoss: number, ignoresDefense: boolean) {
+    const destroyed = !!tile.structureType &&
+      (ignoresDefense || this.rng() < 1 / this.getDefenseMultiplier(tile));
+    const destroyedHq = destroyed && tile.structureType === 'hq';
+    if (destroyed) {
+      tile.structureType = undefined;
+    }
+    this.cancelConstruction(tile);
+    
+    tile.population = Math.floor(tile.population * (1 - populationLoss));
+    this.markTileChanged(tile.id);
+    
+    const owner = tile.ownerId ? this.players.get(tile.ownerId) : undefined;
+    if (destroyedHq && owner?.capitalTileId === tile.id) {
+      this.loseCapital(owner);
+    }
+  }
+
+  // Tile ids grouped by adjacency ring, ring 0 being the center itself
+  private getTileRings(centerTileId: number, rings: number): number[][] {
+    const visited = new Set<number>([centerTileId]);
+    const result: number[][] = [];
+    let frontier = [centerTileId];
+    
+    for (let ring = 0; ring <= rings && frontier.length > 0; ring++) {
+      result.push(frontier);
+      const nextFrontier: number[] = [];
+      frontier.forEach(tileId => {
+        this.getNeighbors(tileId).forEach(neighborId => {
+          if (!visited.has(neighborId)) {
+            visited.add(neighborId);
+            nextFrontier.push(neighborId);
+          }
+        });
+      });
+      frontier = nextFrontier;
+    }
+    return result;
+  }
+
+  // Every SAM gets one shot at each hostile missile that enters its coverage
+  private interceptMissiles() {
+    if (this.missiles.size === 0) return;
+    
+    const sams: GameTile[] = [];
+    this.players.forEach(player => {
+      this.getOwnedTiles(player.id).forEach(tile => {
+        if (this.getActiveEffects(tile)?.interception) {
+          sams.push(tile);
+        }
+      });
+    });
+    if (sams.length === 0) return;
+    
+    const spacing = getTileSpacing(this.world);
+    this.missiles.forEach(missile => {
+      const progress = Math.min(1, (this.currentTick - missile.launchTick) / missile.travelTicks);
+      const ground = this.getGroundTrack(missile, progress);
+      let engaged = this.samEngagements.get(missile.id);
+      
+      for (const sam of sams) {
+        if (sam.ownerId === missile.playerId || engaged?.has(sam.id)) continue;
+        
+        const { radiusTiles, chance } = BUILDINGS[sam.structureType!].effects.interception!;
+        const center = getTileCenter(this.world, sam.id);
+        const dot = center[0] * ground[0] + center[1] * ground[1] + center[2] * ground[2];
+        if (Math.acos(Math.max(-1, Math.min(1, dot))) > radiusTiles * spacing) continue;
+        
+        if (!engaged) {
+          engaged = new Set();
+          this.samEngagements.set(missile.id, engaged);
+        }
+        engaged.add(sam.id);
+        
+        if (this.rng() < chance) {
+          const altitude = 1 + Math.sin(progress * Math.PI) * MISSILE_ARC_HEIGHT;
+          this.missiles.delete(missile.id);
+          this.samEngagements.delete(missile.id);
+          this.events.push({
+            type: 'missile_intercepted',
+            data: {
+              missileId: missile.id,
+              samTileId: sam.id,
+              position: [ground[0] * altitude, ground[1] * altitude, ground[2] * altitude]
+            }
+          });
+          return;
+        }
+      }
+    });
+  }
+
+  // Point on the globe below a missile at the given share of its flight
+  private getGroundTrack(missile: Missile, progress: number): Vec3 {
+    const from = getTileCenter(this.world, missile.fromTileId);
+    const to = getTileCenter(this.world, missile.toTileId);
+    const angle = Math.acos(Math.max(-1, Math.min(1, from[0] * to[0] + from[1] * to[1] + from[2] * to[2])));
+    if (angle < 0.001) {
+      return to;
     }
     
-    // Reduce population by 50%
-    targetTile.population = Math.floor(targetTile.population * 0.5);
+    const a = Math.sin((1 - progress) * angle) / Math.sin(angle);
+    const b = Math.sin(progress * angle) / Math.sin(angle);
+    return [a * from[0] + b * to[0], a * from[1] + b * to[1], a * from[2] + b * to[2]];
+  }
+
+  // Devastates every tile within the blast rings, hardest at ground zero,
+  // and leaves fallout that fades with distance
+  private detonateNuke(groundZero: GameTile) {
+    const rings = NUKE_RULES.blastRings;
+    const lostCapitals = new Set<Player>();
     
-    // Remove missile
-    this.missiles.delete(missileId);
+    this.getTileRings(groundZero.id, rings).forEach((ringTileIds, ring) => {
+      const intensity = 1 - ring / (rings + 1);
+      
+      ringTileIds.forEach(tileId => {
+        const tile = this.tiles.get(tileId)!;
+        const owner = tile.ownerId ? this.players.get(tile.ownerId) : undefined;
+        
+        if (intensity >= BLAST_STRUCTURE_DESTRUCTION) {
+          if (tile.structureType === 'hq' && owner?.capitalTileId === tile.id) {
+            lostCapitals.add(owner);
+          }
+          tile.structureType = undefined;
+          this.cancelConstruction(tile);
+        }
+        tile.population *= 1 - intensity;
+        if (ring === 0) {
+          // Nothing survives at ground zero, not even the claim on it
+          this.setOwner(tile, undefined);
+          tile.population = 0;
+        }
+        if (tile.terrainType !== 'water') {
+          tile.radiation = Math.max(tile.radiation ?? 0, intensity);
+          this.irradiatedTiles.add(tileId);
+        }
+        this.markTileChanged(tileId);
+      });
+    });
     
-    return { success: true, data: { tile: targetTile } };
+    // Capitals move only once the dust has settled
+    lostCapitals.forEach(player => this.loseCapital(player));
+  }
+
+  private updateRadiation(deltaSeconds: number) {
+    this.irradiatedTiles.forEach(tileId => {
+      const tile = this.tiles.get(tileId)!;
+      const before = tile.radiation ?? 0;
+      const after = before - NUKE_RULES.radiationDecayPerSecond * deltaSeconds;
+      
+      if (after <= 0) {
+        tile.radiation = undefined;
+        this.irradiatedTiles.delete(tileId);
+        this.markTileChanged(tileId);
+        return;
+      }
+      tile.radiation = after;
+      // Clients only need to see the fallout fade in visible steps
+      if (Math.round(before * 100) !== Math.round(after * 100)) {
+        this.markTileChanged(tileId);
+      }
+    });
+  }
+
+  private awardNukeTokens() {
+    const armed = new Set<string>();
+    this.tiles.forEach(tile => {
+      if (tile.ownerId && tile.structureType === 'missile_silo') {
+        armed.add(tile.ownerId);
+      }
+    });
+    
+    armed.forEach(playerId => {
+      const player = this.players.get(playerId)!;
+      player.nukeTokens = Math.min(NUKE_RULES.maxTokens, player.nukeTokens + 1);
+    });
+  }
+
+  private markTileChanged(tileId: number) {
+    this.changedTiles.add(tileId);
+  }
+
+  // Everything that changed since the previous call: touched tiles and the
+  // player fields that differ from what was last handed out
+  collectChanges(): StateChanges {
+    const tiles = Array.from(this.changedTiles)
+      .map(tileId => this.tiles.get(tileId))
+      .filter((tile): tile is GameTile => tile !== undefined);
+    this.changedTiles.clear();
+    
+    const players: PlayerDelta[] = [];
+    this.players.forEach((player, playerId) => {
+      const synced = this.syncedPlayers.get(playerId);
+      const delta: PlayerDelta = { id: playerId };
+      let changed = !synced;
+      
+      const copyField = <K extends keyof Player>(key: K) => {
+        if (player[key] === undefined) {
+          delta.cleared = [...(delta.cleared ?? []), key];
+        } else {
+          delta[key] = player[key];
+        }
+      };
+      (Object.keys(player) as (keyof Player)[]).forEach(key => {
+        if (!synced || synced[key] !== player[key]) {
+          copyField(key);
+          changed = true;
+        }
+      });
+      
+      if (changed) {
+        players.push(delta);
+        this.syncedPlayers.set(playerId, { ...player });
+      }
+    });
+    
+    const removedPlayerIds = Array.from(this.syncedPlayers.keys())
+      .filter(playerId => !this.players.has(playerId));
+    removedPlayerIds.forEach(playerId => this.syncedPlayers.delete(playerId));
+    
+    return { tiles, players, removedPlayerIds };
+  }
+
+  // Ids only depend on simulation order, so replays produce the same ids
+  private createEntityId(prefix: string): string {
+    return `${prefix}_${this.currentTick}_${this.nextEntityId++}`;
   }
 
   private calculateSphericalTrajectory(from: [number, number, number], to: [number, number, number]): [number, number, number][] {
@@ -490,7 +1610,7 @@ export class GameState {
         const b = Math.sin(t * angle) / sinAngle;
         
         // Add height for ballistic trajectory
-        const height = Math.sin(t * Math.PI) * 0.3; // Peak at middle of trajectory
+        const height = Math.sin(t * Math.PI) * MISSILE_ARC_HEIGHT; // Peak at middle of trajectory
         const radius = 1.0 + height; // Base radius plus height
         
         const x = (a * fromVec[0] + b * toVec[0]) * radius;
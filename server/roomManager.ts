@@ -0,0 +1,191 @@
+import { WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
+import { GameServer } from './gameServer';
+import { DEFAULT_ROOM_ID, ErrorCode, ServerMessage, parseClientMessage, roomIdSchema } from '../shared/protocol';
+import { DEFAULT_ROOM_SETTINGS, RoomSettings, RoomSummary } from '../shared/schema';
+import { WireEncoding } from '../shared/wireFormat';
+
+// Every room ticks on the same thread. A busy late-game room with eight
+// players takes about 6 ms of the 50 ms tick, so this leaves headroom for
+// encoding and sending state.
+const MAX_ROOMS = 6;
+const ROOM_SWEEP_INTERVAL_MS = 10000;
+const ROOM_IDLE_TIMEOUT_MS = 60000; // Gives the creator time to connect, too
+const ROOM_CREATION_COOLDOWN_MS = 30000; // Per client address
+
+interface RoomMember {
+  roomId: string;
+  encoding: WireEncoding;
+}
+
+export class RoomManager {
+  private rooms: Map<string, GameServer> = new Map();
+  private members: Map<WebSocket, RoomMember> = new Map();
+  private emptySince: Map<string, number> = new Map();
+  private lastCreatedAt: Map<string, number> = new Map(); // By client address
+  private sweepInterval: NodeJS.Timeout;
+
+  constructor(defaultSeed?: number) {
+    // A pinned seed only applies to the default room
+    this.rooms.set(DEFAULT_ROOM_ID, new GameServer(DEFAULT_ROOM_ID, { ...DEFAULT_ROOM_SETTINGS, seed: defaultSeed }));
+    
+    this.sweepInterval = setInterval(() => {
+      this.sweepEmptyRooms();
+    }, ROOM_SWEEP_INTERVAL_MS);
+  }
+
+  handleConnection(ws: WebSocket, roomId: string = DEFAULT_ROOM_ID, encoding: WireEncoding = 'json') {
+    ws.on('message', (data) => {
+      // Nothing past this point sees an unvalidated message
+      const parsed = parseClientMessage(data.toString());
+      if (!parsed.success) {
+        this.sendError(ws, parsed.code, parsed.error);
+        return;
+      }
+      
+      const message = parsed.message;
+      if (message.type === 'join_room') {
+        this.joinRoom(ws, message.data.roomId, this.members.get(ws)?.encoding ?? encoding);
+        return;
+      }
+      
+      const member = this.members.get(ws);
+      const room = member && this.rooms.get(member.roomId);
+      if (!room) {
+        this.sendError(ws, 'ROOM_UNAVAILABLE', 'Join a room first');
+        return;
+      }
+      room.handleMessage(ws, message);
+    });
+    
+    ws.on('pong', () => {
+      const member = this.members.get(ws);
+      if (member) {
+        this.rooms.get(member.roomId)?.handlePong(ws);
+      }
+    });
+    
+    // Stale invite links still land somewhere playable
+    if (!this.joinRoom(ws, roomId, encoding) && roomId !== DEFAULT_ROOM_ID) {
+      this.joinRoom(ws, DEFAULT_ROOM_ID, encoding);
+    }
+  }
+
+  handleDisconnection(ws: WebSocket) {
+    this.leaveRoom(ws);
+  }
+
+  // False if the socket could not join
+  joinRoom(ws: WebSocket, roomId: string, encoding: WireEncoding): boolean {
+    if (!roomIdSchema.safeParse(roomId).success) {
+      this.sendError(ws, 'ROOM_UNAVAILABLE', `Invalid room id: ${roomId}`);
+      return false;
+    }
+    
+    if (this.members.get(ws)?.roomId === roomId) {
+      return true;
+    }
+    
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      this.sendError(ws, 'ROOM_UNAVAILABLE', `Room ${roomId} not found`);
+      return false;
+    }
+    
+    this.leaveRoom(ws);
+    this.members.set(ws, { roomId, encoding });
+    
+    this.send(ws, { type: 'room_joined', data: { roomId } });
+    room.handleConnection(ws, encoding);
+    return true;
+  }
+
+  // Milliseconds until the address may create another room, 0 if it may now
+  getCreationCooldown(creator: string): number {
+    const createdAt = this.lastCreatedAt.get(creator);
+    return createdAt === undefined ? 0 : Math.max(0, createdAt + ROOM_CREATION_COOLDOWN_MS - Date.now());
+  }
+
+  // Undefined when the server already hosts as many rooms as it can
+  createRoom(settings: RoomSettings, creator: string): GameServer | undefined {
+    if (this.rooms.size >= MAX_ROOMS) {
+      return undefined;
+    }
+    
+    // Random ids keep private rooms unguessable; public ones get them too
+    let roomId: string;
+    do {
+      roomId = randomBytes(6).toString('base64url');
+    } while (this.rooms.has(roomId));
+    
+    const room = new GameServer(roomId, settings);
+    this.rooms.set(roomId, room);
+    this.lastCreatedAt.set(creator, Date.now());
+    return room;
+  }
+
+  getRoom(roomId: string): GameServer | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  // Public rooms for the lobby browser
+  listRooms(): RoomSummary[] {
+    return Array.from(this.rooms.values())
+      .filter(room => !room.settings.isPrivate)
+      .map(room => room.getSummary());
+  }
+
+  destroy() {
+    clearInterval(this.sweepInterval);
+    this.rooms.forEach(room => room.destroy());
+    this.rooms.clear();
+    this.members.clear();
+  }
+
+  private leaveRoom(ws: WebSocket) {
+    const member = this.members.get(ws);
+    if (!member) return;
+    
+    // The room holds the player's session, so they can resume there later
+    this.rooms.get(member.roomId)?.handleDisconnection(ws);
+    this.members.delete(ws);
+  }
+
+  private sweepEmptyRooms() {
+    const now = Date.now();
+    
+    this.lastCreatedAt.forEach((createdAt, creator) => {
+      if (now - createdAt >= ROOM_CREATION_COOLDOWN_MS) {
+        this.lastCreatedAt.delete(creator);
+      }
+    });
+    
+    this.rooms.forEach((room, roomId) => {
+      // The default room always stays up so there is somewhere to land
+      if (roomId === DEFAULT_ROOM_ID || !room.isEmpty()) {
+        this.emptySince.delete(roomId);
+        return;
+      }
+      
+      const since = this.emptySince.get(roomId) ?? now;
+      this.emptySince.set(roomId, since);
+      if (now - since >= ROOM_IDLE_TIMEOUT_MS) {
+        console.log(`Tearing down empty room ${roomId}`);
+        room.destroy();
+        this.rooms.delete(roomId);
+        this.emptySince.delete(roomId);
+      }
+    });
+  }
+
+  // Manager-level messages are small, so always JSON
+  private send(ws: WebSocket, message: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  private sendError(ws: WebSocket, code: ErrorCode, message: string) {
+    this.send(ws, { type: 'error', data: { code, message } });
+  }
+}
@@ -2,7 +2,9 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from 'ws';
 import { storage } from "./storage";
-import { GameServer } from "./gameServer";
+import { RoomManager } from "./roomManager";
+import { DEFAULT_ROOM_ID, roomSettingsSchema } from "../shared/protocol";
+import { fromZodError } from "zod-validation-error";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
@@ -14,18 +16,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     path: '/ws'
   });
   
-  // Initialize game server
-  const gameServer = new GameServer();
+  // Rooms are created on demand (WORLD_SEED pins the default room's map, e.g. for tournaments)
+  const roomManager = new RoomManager(parseWorldSeed(process.env.WORLD_SEED));
   
   // Handle WebSocket connections
   wss.on('connection', (ws, request) => {
     console.log('New WebSocket connection from:', request.socket.remoteAddress);
     
-    gameServer.handleConnection(ws);
+    // Clients opt into the binary wire format with /ws?encoding=binary and
+    // pick a room with /ws?room=<id>
+    const params = new URL(request.url ?? '/ws', 'http://localhost').searchParams;
+    const encoding = params.get('encoding') === 'binary' ? 'binary' : 'json';
+    const roomId = params.get('room') ?? DEFAULT_ROOM_ID;
+    
+    roomManager.handleConnection(ws, roomId, encoding);
     
     ws.on('close', () => {
       console.log('WebSocket connection closed');
-      gameServer.handleDisconnection(ws);
+      roomManager.handleDisconnection(ws);
     });
     
     ws.on('error', (error) => {
@@ -33,18 +41,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // API Routes for game data
+  // Room browser
+  app.get('/api/rooms', (req, res) => {
+    res.json(roomManager.listRooms());
+  });
+  
+  app.post('/api/rooms', (req, res) => {
+    const parsed = roomSettingsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    
+    // One room per address every so often, so nobody can fill every slot alone
+    const creator = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+    const cooldown = roomManager.getCreationCooldown(creator);
+    if (cooldown > 0) {
+      const seconds = Math.ceil(cooldown / 1000);
+      res.set('Retry-After', String(seconds));
+      return res.status(429).json({ message: `You just created a room, try again in ${seconds}s` });
+    }
+    
+    const room = roomManager.createRoom(parsed.data, creator);
+    if (!room) {
+      return res.status(503).json({ message: 'No capacity for another room, try again later' });
+    }
+    
+    res.status(201).json(room.getSummary());
+  });
+  
+  // API Routes for game data; ?room=<id> selects the room, default room otherwise
   app.get('/api/game/status', (req, res) => {
+    const roomId = typeof req.query.room === 'string' ? req.query.room : DEFAULT_ROOM_ID;
+    const room = roomManager.getRoom(roomId);
+    if (!room) {
+      return res.status(404).json({ message: `Room ${roomId} not found` });
+    }
+    
     res.json({
-      players: gameServer.getPlayerCount(),
+      room: room.roomId,
+      players: room.getPlayerCount(),
       uptime: process.uptime(),
-      gameTime: gameServer.getGameTime()
+      seed: room.getSeed(),
+      gameTime: room.getGameTime()
     });
   });
   
   app.get('/api/game/leaderboard', (req, res) => {
-    res.json(gameServer.getLeaderboard());
+    const roomId = typeof req.query.room === 'string' ? req.query.room : DEFAULT_ROOM_ID;
+    const room = roomManager.getRoom(roomId);
+    if (!room) {
+      return res.status(404).json({ message: `Room ${roomId} not found` });
+    }
+    
+    res.json(room.getLeaderboard());
   });
 
   return httpServer;
 }
+
+// A bad seed would reach every client as an invalid snapshot, so refuse to start
+function parseWorldSeed(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const seed = Number(value);
+  if (!/^\d+$/.test(value.trim()) || seed > 0xffffffff) {
+    throw new Error(`WORLD_SEED must be an integer from 0 to ${0xffffffff}, got "${value}"`);
+  }
+  return seed;
+}
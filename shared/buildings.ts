@@ -0,0 +1,127 @@
+import type { StructureType } from "./schema";
+import type { TerrainType } from "./world";
+
+// Everything the game knows about a building lives here, so the server applies
+// the same rules the client shows in the build menu.
+
+export interface BuildingEffects {
+  defense?: number; // Multiplier on the tile's defence
+  populationCap?: number; // Extra people the tile can hold
+  goldYield?: number; // Multiplier on what workers on the tile earn
+  powerProjectionRange?: number; // Water tiles the owner can expand across from here
+  interception?: {
+    radiusTiles: number; // Great-circle coverage around the building
+    chance: number; // Odds of downing each hostile missile that enters coverage
+  };
+}
+
+export interface BuildingDefinition {
+  name: string;
+  description: string;
+  buildable: boolean; // False for buildings that only come from game events
+  cost: number; // Gold, paid when construction starts
+  buildSeconds: number;
+  requires: StructureType[]; // Finished buildings the empire needs elsewhere first
+  maxPerEmpire?: number; // Counts buildings under construction too
+  placement: {
+    coastal?: boolean; // Must border water
+    terrain?: TerrainType[]; // Allowed terrain, any land if unset
+  };
+  effects: BuildingEffects;
+}
+
+export const BUILDINGS: Record<StructureType, BuildingDefinition> = {
+  city: {
+    name: "City",
+    description: "Houses more people and boosts the gold they earn",
+    buildable: true,
+    cost: 250,
+    buildSeconds: 10,
+    requires: [],
+    placement: { terrain: ["grass", "desert"] },
+    effects: { defense: 1.3, populationCap: 100, goldYield: 1.5 },
+  },
+  port: {
+    name: "Port",
+    description: "Lets your empire expand across the sea and trade",
+    buildable: true,
+    cost: 300,
+    buildSeconds: 15,
+    requires: [],
+    placement: { coastal: true },
+    effects: { defense: 1.1, goldYield: 1.2, powerProjectionRange: 12 },
+  },
+  missile_silo: {
+    name: "Missile Silo",
+    description: "Launches missiles at distant targets",
+    buildable: true,
+    cost: 1000,
+    buildSeconds: 30,
+    requires: ["city"],
+    maxPerEmpire: 3,
+    placement: {},
+    effects: { defense: 1.2 },
+  },
+  sam: {
+    name: "SAM Site",
+    description: "Tries to shoot down hostile missiles flying overhead",
+    buildable: true,
+    cost: 600,
+    buildSeconds: 20,
+    requires: [],
+    placement: {},
+    effects: { defense: 1.1, interception: { radiusTiles: 10, chance: 0.6 } },
+  },
+  hq: {
+    name: "Headquarters",
+    description: "Your capital; losing it costs you dearly",
+    buildable: false,
+    cost: 0,
+    buildSeconds: 0,
+    requires: [],
+    placement: {},
+    effects: { defense: 1.5, populationCap: 50 },
+  },
+};
+
+// What a build request is checked against
+export interface BuildContext {
+  terrainType: TerrainType;
+  coastal: boolean;
+  occupied: boolean; // Already has a building or one under construction
+  gold: number;
+  built: Partial<Record<StructureType, number>>; // The empire's finished buildings
+  planned: Partial<Record<StructureType, number>>; // Finished plus under construction
+}
+
+// Why the building cannot go here, or undefined if it can
+export function getBuildError(type: StructureType, context: BuildContext): string | undefined {
+  const building = BUILDINGS[type];
+
+  if (!building.buildable) {
+    return `${building.name} cannot be built`;
+  }
+  if (context.occupied) {
+    return "Tile already has a structure";
+  }
+  if (context.terrainType === "water") {
+    return "Cannot build on water";
+  }
+  if (building.placement.terrain && !building.placement.terrain.includes(context.terrainType)) {
+    return `${building.name} cannot be built on ${context.terrainType}`;
+  }
+  if (building.placement.coastal && !context.coastal) {
+    return `${building.name} must be adjacent to water`;
+  }
+  const missing = building.requires.find((required) => !context.built[required]);
+  if (missing) {
+    return `Requires a ${BUILDINGS[missing].name}`;
+  }
+  if (building.maxPerEmpire !== undefined && (context.planned[type] ?? 0) >= building.maxPerEmpire) {
+    return `At most ${building.maxPerEmpire} per empire`;
+  }
+  if (context.gold < building.cost) {
+    return `Need ${building.cost} gold`;
+  }
+  return undefined;
+}
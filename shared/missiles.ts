@@ -0,0 +1,109 @@
+import type { WeaponType } from "./schema";
+
+// Missile silo and flight rules, shared so the client can show what a launch
+// costs and how far it reaches. Distances are in tiles, converted to radians
+// with the world's tile spacing.
+
+// What happens where the missile comes down
+export type WeaponEffect =
+  | {
+      kind: "strike";
+      populationLoss: number; // Share of the tile's people killed
+      ignoresDefense: boolean; // Otherwise a building survives with odds set by the tile's defence
+    }
+  | {
+      kind: "cluster";
+      rings: number; // Adjacency rings around the target the bomblets scatter over
+      submunitions: number; // Random tiles hit, each like a weaker strike
+      populationLoss: number;
+    }
+  | {
+      kind: "emp";
+      rings: number; // Buildings this many rings out are knocked out
+      disableSeconds: number;
+    }
+  | { kind: "nuke" }; // See NUKE_RULES
+
+export interface WeaponRules {
+  name: string;
+  description: string;
+  cost: number; // Gold per launch
+  rangeTiles: number; // Great-circle reach from the silo
+  speedTilesPerSecond: number;
+  minFlightSeconds: number;
+  cooldownSeconds: number; // Before the silo that fired it can launch this weapon again
+  requiresNukeToken: boolean;
+  effect: WeaponEffect;
+}
+
+export const WEAPONS: Record<WeaponType, WeaponRules> = {
+  conventional: {
+    name: "Missile",
+    description: "Halves a tile's people and may knock out its building",
+    cost: 200,
+    rangeTiles: 60,
+    speedTilesPerSecond: 15,
+    minFlightSeconds: 1,
+    cooldownSeconds: 5,
+    requiresNukeToken: false,
+    effect: { kind: "strike", populationLoss: 0.5, ignoresDefense: false },
+  },
+  // Slow on purpose: everyone gets a warning and time to react
+  nuke: {
+    name: "Nuke",
+    description: "Devastates everything around ground zero and leaves fallout",
+    cost: 1000,
+    rangeTiles: 120,
+    speedTilesPerSecond: 6,
+    minFlightSeconds: 10,
+    cooldownSeconds: 30,
+    requiresNukeToken: true,
+    effect: { kind: "nuke" },
+  },
+  cluster: {
+    name: "Cluster Munition",
+    description: "Scatters bomblets over random tiles around the target",
+    cost: 350,
+    rangeTiles: 45,
+    speedTilesPerSecond: 12,
+    minFlightSeconds: 1,
+    cooldownSeconds: 10,
+    requiresNukeToken: false,
+    effect: { kind: "cluster", rings: 2, submunitions: 6, populationLoss: 0.3 },
+  },
+  // Leaves people alone, so it softens a target before an invasion
+  emp: {
+    name: "EMP",
+    description: "Shuts down nearby buildings for a while without killing anyone",
+    cost: 400,
+    rangeTiles: 80,
+    speedTilesPerSecond: 15,
+    minFlightSeconds: 1,
+    cooldownSeconds: 15,
+    requiresNukeToken: false,
+    effect: { kind: "emp", rings: 2, disableSeconds: 45 },
+  },
+  bunker_buster: {
+    name: "Bunker Buster",
+    description: "Always destroys the building it hits, however well defended",
+    cost: 500,
+    rangeTiles: 40,
+    speedTilesPerSecond: 10,
+    minFlightSeconds: 2,
+    cooldownSeconds: 20,
+    requiresNukeToken: false,
+    effect: { kind: "strike", populationLoss: 0.2, ignoresDefense: true },
+  },
+};
+
+export const SILO_RULES = {
+  magazineSize: 3, // Missiles a silo holds
+  reloadSeconds: 30, // To restock one missile
+} as const;
+
+export const NUKE_RULES = {
+  blastRings: 4, // Adjacency rings devastated around ground zero
+  tokenIntervalSeconds: 300, // Every empire with a silo enriches one warhead this often
+  maxTokens: 2,
+  radiationDecayPerSecond: 1 / 180, // Full fallout clears in three minutes
+} as const;
@@ -0,0 +1,104 @@
+import { Rng } from "./random";
+
+// Classic 3D Perlin noise with fractal Brownian motion layering.
+// Shared by client and server so both generate identical terrain.
+
+export class PerlinNoise {
+  private p: number[] = new Array(512);
+
+  constructor(rng: Rng) {
+    // Fisher-Yates shuffle of 0..255 drives the whole noise field
+    const permutation = Array.from({ length: 256 }, (_, i) => i);
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+    }
+    for (let i = 0; i < 256; i++) {
+      this.p[256 + i] = this.p[i] = permutation[i];
+    }
+  }
+
+  noise3D(x: number, y: number, z: number): number {
+    let X = Math.floor(x) & 255,
+      Y = Math.floor(y) & 255,
+      Z = Math.floor(z) & 255;
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+    let u = this.fade(x),
+      v = this.fade(y),
+      w = this.fade(z);
+    let A = this.p[X] + Y,
+      AA = this.p[A] + Z,
+      AB = this.p[A + 1] + Z,
+      B = this.p[X + 1] + Y,
+      BA = this.p[B] + Z,
+      BB = this.p[B + 1] + Z;
+    return this.lerp(
+      w,
+      this.lerp(
+        v,
+        this.lerp(
+          u,
+          this.grad(this.p[AA], x, y, z),
+          this.grad(this.p[BA], x - 1, y, z),
+        ),
+        this.lerp(
+          u,
+          this.grad(this.p[AB], x, y - 1, z),
+          this.grad(this.p[BB], x - 1, y - 1, z),
+        ),
+      ),
+      this.lerp(
+        v,
+        this.lerp(
+          u,
+          this.grad(this.p[AA + 1], x, y, z - 1),
+          this.grad(this.p[BA + 1], x - 1, y, z - 1),
+        ),
+        this.lerp(
+          u,
+          this.grad(this.p[AB + 1], x, y - 1, z - 1),
+          this.grad(this.p[BB + 1], x - 1, y - 1, z - 1),
+        ),
+      ),
+    );
+  }
+
+  fbm(
+    x: number,
+    y: number,
+    z: number,
+    octaves: number,
+    persistence: number,
+    lacunarity: number = 2,
+  ): number {
+    let value = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+    for (let i = 0; i < octaves; i++) {
+      value +=
+        amplitude * this.noise3D(x * frequency, y * frequency, z * frequency);
+      maxValue += amplitude;
+      amplitude *= persistence;
+      frequency *= lacunarity;
+    }
+    return value / maxValue;
+  }
+
+  private fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+  }
+
+  private lerp(t: number, a: number, b: number): number {
+    return a + t * (b - a);
+  }
+
+  private grad(hash: number, x: number, y: number, z: number): number {
+    let h = hash & 15;
+    let u = h < 8 ? x : y,
+      v = h < 4 ? y : h == 12 || h == 14 ? x : z;
+    return ((h & 1) == 0 ? u : -u) + ((h & 2) == 0 ? v : -v);
+  }
+}
@@ -0,0 +1,389 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  EXPANSION_TERRAIN_PREFERENCES,
+  ExpansionFocus,
+  GAME_MODES,
+  GameTile,
+  MATCH_END_REASONS,
+  MATCH_PHASES,
+  MAX_CLAIMS_PER_INTERVAL,
+  MatchResult,
+  MatchState,
+  Missile,
+  Player,
+  PlayerDelta,
+  RoomSettings,
+  StateDelta,
+  STRUCTURE_TYPES,
+  WEAPON_TYPES,
+} from "./schema";
+import { TERRAIN_TYPES } from "./world";
+
+// The WebSocket protocol shared by client and server. Every message is
+// `{ type, data }`; the schemas below are the single source of truth for
+// both directions and are checked at runtime wherever a message arrives.
+
+const tileIdSchema = z.number().int().nonnegative();
+
+// Sockets that do not ask for a room land here
+export const DEFAULT_ROOM_ID = "main";
+
+// Room ids appear in URLs, keep them to a URL-safe alphabet
+export const roomIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,32}$/, "Room ids are 1-32 letters, digits, - or _");
+
+// Body of POST /api/rooms
+export const roomSettingsSchema: z.ZodType<RoomSettings, z.ZodTypeDef, unknown> = z.object({
+  mode: z.enum(GAME_MODES).default("classic"),
+  maxPlayers: z.number().int().min(2).max(32).default(16),
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  isPrivate: z.boolean().default(false),
+});
+
+// Game entities
+
+export const expansionFocusSchema: z.ZodType<ExpansionFocus> = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("random") }),
+  z.object({ type: z.literal("tile"), tileId: tileIdSchema }),
+  z.object({ type: z.literal("direction"), bearing: z.number().min(0).max(360) }),
+  z.object({ type: z.literal("terrain"), terrain: z.enum(EXPANSION_TERRAIN_PREFERENCES) }),
+]);
+
+const playerFields = z.object({
+  id: z.string(),
+  username: z.string(),
+  color: z.string(),
+  gold: z.number(),
+  population: z.number(),
+  soldiers: z.number(),
+  workers: z.number(),
+  workerRatio: z.number(),
+  nukeTokens: z.number().int().nonnegative(),
+  lastActiveTick: z.number(),
+  capitalTileId: tileIdSchema.optional(),
+  expansion: z.object({
+    focus: expansionFocusSchema,
+    soldierBudget: z.number().nonnegative(),
+    claimsPerInterval: z.number().int().min(0).max(MAX_CLAIMS_PER_INTERVAL),
+  }),
+});
+
+export const playerSchema: z.ZodType<Player> = playerFields;
+
+export const playerDeltaSchema: z.ZodType<PlayerDelta> = playerFields
+  .partial()
+  .required({ id: true })
+  .extend({ cleared: z.array(playerFields.keyof()).optional() });
+
+export const gameTileSchema: z.ZodType<GameTile> = z.object({
+  id: tileIdSchema,
+  ownerId: z.string().optional(),
+  structureType: z.enum(STRUCTURE_TYPES).optional(),
+  construction: z.enum(STRUCTURE_TYPES).optional(),
+  radiation: z.number().min(0).max(1).optional(),
+  disabled: z.boolean().optional(),
+  population: z.number(),
+  terrainType: z.enum(TERRAIN_TYPES),
+});
+
+export const missileSchema: z.ZodType<Missile> = z.object({
+  id: z.string(),
+  weapon: z.enum(WEAPON_TYPES),
+  fromTileId: tileIdSchema,
+  toTileId: tileIdSchema,
+  playerId: z.string(),
+  launchTick: z.number(),
+  travelTicks: z.number(),
+  trajectory: z.array(z.tuple([z.number(), z.number(), z.number()])),
+});
+
+export const stateDeltaSchema: z.ZodType<StateDelta> = z.object({
+  seq: z.number(),
+  tick: z.number(),
+  tiles: z.array(gameTileSchema),
+  players: z.array(playerDeltaSchema),
+  removedPlayerIds: z.array(z.string()),
+});
+
+export const matchStateSchema: z.ZodType<MatchState> = z.object({
+  phase: z.enum(MATCH_PHASES),
+  phaseEndsAtTick: z.number().optional(),
+});
+
+export const matchResultSchema: z.ZodType<MatchResult> = z.object({
+  reason: z.enum(MATCH_END_REASONS),
+  winnerId: z.string().optional(),
+  standings: z.array(
+    z.object({
+      playerId: z.string(),
+      username: z.string(),
+      color: z.string(),
+      territory: z.number(),
+      gold: z.number(),
+      population: z.number(),
+      score: z.number(),
+    }),
+  ),
+});
+
+// Client -> server
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join_room"),
+    data: z.object({ roomId: roomIdSchema }),
+  }),
+  z.object({
+    type: z.literal("spawn_player"),
+    data: z.object({ username: z.string().trim().min(1).max(32) }),
+  }),
+  z.object({
+    type: z.literal("choose_spawn"),
+    data: z.object({ tileId: tileIdSchema }),
+  }),
+  z.object({
+    type: z.literal("select_tile"),
+    data: z.object({ tileId: tileIdSchema }),
+  }),
+  z.object({
+    type: z.literal("expand_territory"),
+    data: z.object({ tileId: tileIdSchema }),
+  }),
+  z.object({
+    type: z.literal("attack_tile"),
+    data: z.object({
+      tileId: tileIdSchema,
+      soldiers: z.number().int().positive().optional(), // Defaults to half of the available soldiers
+    }),
+  }),
+  z.object({
+    type: z.literal("set_expansion_policy"),
+    data: z.object({
+      focus: expansionFocusSchema,
+      soldierBudget: z.number().int().nonnegative(),
+      claimsPerInterval: z.number().int().min(0).max(MAX_CLAIMS_PER_INTERVAL),
+    }),
+  }),
+  z.object({
+    type: z.literal("adjust_worker_ratio"),
+    data: z.object({ ratio: z.number().min(0).max(1) }),
+  }),
+  z.object({
+    type: z.literal("build_structure"),
+    data: z.object({
+      tileId: tileIdSchema,
+      structureType: z.enum(STRUCTURE_TYPES),
+    }),
+  }),
+  z.object({
+    type: z.literal("launch_missile"),
+    data: z.object({
+      fromTileId: tileIdSchema,
+      toTileId: tileIdSchema,
+      weapon: z.enum(WEAPON_TYPES).default("conventional"),
+    }),
+  }),
+  z.object({
+    type: z.literal("resume_session"),
+    data: z.object({ resumeToken: z.string().min(1) }),
+  }),
+  z.object({
+    type: z.literal("request_snapshot"),
+    data: z.object({}),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageOf<T extends ClientMessage["type"]> = Extract<
+  ClientMessage,
+  { type: T }
+>;
+
+// Server -> client
+
+export const ERROR_CODES = [
+  "INVALID_MESSAGE", // Not JSON, or does not match clientMessageSchema
+  "NOT_SPAWNED", // Action needs a player but the socket has none yet
+  "ALREADY_SPAWNED",
+  "SESSION_EXPIRED", // Resume token unknown, or its grace period ran out
+  "ROOM_UNAVAILABLE", // Unknown room id
+  "ROOM_FULL", // The room already has its maximum number of players
+  "WRONG_PHASE", // Not allowed in the current match phase
+  "ACTION_FAILED", // Valid request rejected by the game rules
+  "INSUFFICIENT_GOLD",
+  "NO_SILO", // Launch tile is not one of the player's finished missile silos
+  "OUT_OF_RANGE", // Target is beyond the missile's great-circle range
+  "SILO_COOLDOWN", // The silo fired this weapon too recently
+  "MAGAZINE_EMPTY", // The silo has no missiles left until it reloads
+  "NO_NUKE_TOKEN", // Nukes need an enriched warhead
+  "STRUCTURE_DISABLED", // The building is knocked out by an EMP
+  "NO_SPAWN_LAND", // Every land tile is taken, so a late joiner has nowhere to start
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("room_joined"),
+    data: z.object({ roomId: roomIdSchema }), // A game_state for the room follows
+  }),
+  z.object({
+    type: z.literal("game_state"),
+    data: z.object({
+      seq: z.number(), // Last state delta already reflected in this snapshot
+      players: z.array(playerSchema),
+      tiles: z.array(gameTileSchema),
+      missiles: z.array(missileSchema),
+      seed: z.number(), // World generation seed, the client builds the same globe from it
+      gameTime: z.number(),
+      match: matchStateSchema,
+    }),
+  }),
+  z.object({
+    type: z.literal("match_phase"),
+    data: z.object({ match: matchStateSchema, tick: z.number() }),
+  }),
+  z.object({
+    type: z.literal("match_ended"),
+    data: matchResultSchema,
+  }),
+  z.object({
+    type: z.literal("capital_lost"),
+    data: z.object({
+      playerId: z.string(),
+      eliminated: z.boolean(),
+      newCapitalTileId: tileIdSchema.optional(), // Where the HQ moved, unless eliminated
+    }),
+  }),
+  z.object({
+    type: z.literal("state_delta"),
+    data: stateDeltaSchema,
+  }),
+  z.object({
+    type: z.literal("player_spawned"),
+    data: z.object({
+      player: playerSchema,
+      resumeToken: z.string(), // Send back in resume_session after reconnecting
+    }),
+  }),
+  z.object({
+    type: z.literal("session_resumed"),
+    data: z.object({ player: playerSchema }),
+  }),
+  z.object({
+    type: z.literal("player_joined"),
+    data: z.object({ player: playerSchema }),
+  }),
+  z.object({
+    type: z.literal("player_left"),
+    data: z.object({ playerId: z.string() }),
+  }),
+  z.object({
+    type: z.literal("player_updated"),
+    data: z.object({ player: playerSchema }),
+  }),
+  z.object({
+    type: z.literal("tile_updated"),
+    data: z.object({ tile: gameTileSchema }),
+  }),
+  z.object({
+    type: z.literal("territory_expanded"),
+    data: z.object({ tileId: tileIdSchema, playerId: z.string() }),
+  }),
+  z.object({
+    type: z.literal("structure_built"),
+    data: z.object({ tile: gameTileSchema }),
+  }),
+  z.object({
+    type: z.literal("attack_repelled"),
+    data: z.object({
+      tileId: tileIdSchema,
+      defenderId: z.string(),
+      attackerLosses: z.number(),
+      defenderLosses: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal("missile_launched"),
+    data: z.object({ missile: missileSchema }),
+  }),
+  z.object({
+    // Sent to everyone the moment a nuke leaves its silo
+    type: z.literal("nuke_warning"),
+    data: z.object({
+      missileId: z.string(),
+      playerId: z.string(),
+      toTileId: tileIdSchema,
+      impactTick: z.number(),
+      tick: z.number(),
+    }),
+  }),
+  z.object({
+    // Shot down in flight; no impact follows
+    type: z.literal("missile_intercepted"),
+    data: z.object({
+      missileId: z.string(),
+      samTileId: tileIdSchema,
+      position: z.tuple([z.number(), z.number(), z.number()]),
+    }),
+  }),
+  z.object({
+    type: z.literal("missile_impact"),
+    data: z.object({
+      missileId: z.string(),
+      tileId: tileIdSchema,
+      tile: gameTileSchema.optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("error"),
+    data: z.object({ code: z.enum(ERROR_CODES), message: z.string() }),
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageOf<T extends ServerMessage["type"]> = Extract<
+  ServerMessage,
+  { type: T }
+>;
+
+// Parsing at the socket boundary
+
+type ParseResult<T> =
+  | { success: true; message: T }
+  | { success: false; code: ErrorCode; error: string };
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseWith(clientMessageSchema, raw);
+}
+
+export function parseServerMessage(
+  raw: string | unknown,
+): ParseResult<ServerMessage> {
+  return parseWith(serverMessageSchema, raw);
+}
+
+function parseWith<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  raw: string | unknown,
+): ParseResult<T> {
+  let json: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      return { success: false, code: "INVALID_MESSAGE", error: "Message is not valid JSON" };
+    }
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      code: "INVALID_MESSAGE",
+      error: fromZodError(result.error).message,
+    };
+  }
+  return { success: true, message: result.data };
+}
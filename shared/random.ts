@@ -0,0 +1,20 @@
+// Small deterministic PRNG (mulberry32). Identical seeds produce identical
+// sequences on client and server, which world generation relies on.
+
+export type Rng = () => number;
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fresh 32-bit seed for a new match
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
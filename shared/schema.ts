@@ -1,6 +1,7 @@
 import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { TerrainType } from "./world";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -17,35 +18,194 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 // Game types
+
+// The simulation advances in fixed ticks; all game timers are tick counts
+export const TICK_RATE = 20; // ticks per second
+export const TICK_DURATION_MS = 1000 / TICK_RATE;
+
+// How a player's empire grows on its own. The focus decides which frontier
+// tile gets claimed next; the soldier budget pays for extra claims on top of
+// the free trickle every empire gets.
+export const EXPANSION_TERRAIN_PREFERENCES = ['coast', 'grass', 'desert', 'mountain'] as const;
+export type ExpansionTerrainPreference = (typeof EXPANSION_TERRAIN_PREFERENCES)[number];
+
+export type ExpansionFocus =
+  | { type: 'random' }
+  | { type: 'tile'; tileId: number } // Grow towards this tile until it is ours
+  | { type: 'direction'; bearing: number } // Degrees clockwise from north, seen from the capital
+  | { type: 'terrain'; terrain: ExpansionTerrainPreference };
+
+export interface ExpansionPolicy {
+  focus: ExpansionFocus;
+  soldierBudget: number; // Soldiers still allowed to be spent on automatic claims
+  claimsPerInterval: number; // How many claims per expansion interval the budget may buy
+}
+
+export const MAX_CLAIMS_PER_INTERVAL = 10;
+
+export const DEFAULT_EXPANSION_POLICY: ExpansionPolicy = {
+  focus: { type: 'random' },
+  soldierBudget: 0,
+  claimsPerInterval: 3
+};
+
 export interface Player {
   id: string;
   username: string;
   color: string;
   gold: number;
   population: number;
-  workerRatio: number; // 0-1, percentage of population that are workers (vs soldiers)
-  lastActive: number;
+  soldiers: number; // Trained out of the population; spent on claims and attacks
+  workers: number; // Everyone else, earning gold
+  workerRatio: number; // 0-1, share of the population the player wants working; the rest train as soldiers
+  nukeTokens: number; // Enriched warheads, needed to launch a nuke
+  lastActiveTick: number;
+  capitalTileId?: number; // Unset until the player has placed their empire
+  expansion: ExpansionPolicy;
 }
 
+// Army economy, shared so the HUD can show what the army costs
+export const WORKER_GOLD_PER_SECOND = 0.1; // On grass; scaled by the terrain's gold yield
+export const SOLDIER_UPKEEP_PER_SECOND = 0.02;
+export const SOLDIER_TRAINING_COST = 1;
+
+// 'hq' marks a player's capital. It comes with the starting territory and
+// cannot be built. New types go at the end, the wire format stores indices.
+export const STRUCTURE_TYPES = ['city', 'port', 'missile_silo', 'hq', 'sam'] as const;
+export type StructureType = (typeof STRUCTURE_TYPES)[number];
+
+// Changed fields of a player; always carries the id. JSON cannot carry
+// undefined, so optional fields that were unset are listed in `cleared`.
+export type PlayerDelta = Partial<Player> & { id: string; cleared?: (keyof Player)[] };
+
 export interface GameTile {
   id: number;
   ownerId?: string;
-  structureType?: 'city' | 'port' | 'missile_silo';
+  structureType?: StructureType;
+  construction?: StructureType; // Being built; becomes structureType once finished
+  radiation?: number; // 0-1 fallout left by a nuke, decays over time
+  disabled?: boolean; // Structure knocked out by an EMP; its effects are off until it recovers
   population: number;
-  terrainType: 'water' | 'grass' | 'desert' | 'mountain';
+  terrainType: TerrainType;
 }
 
-export interface GameMessage {
-  type: 'spawn_player' | 'select_tile' | 'expand_territory' | 'adjust_worker_ratio' | 'build_structure' | 'launch_missile';
-  data: any;
+// One tick's worth of changes. Values are absolute, so re-applying a delta
+// on top of a newer snapshot is harmless.
+export interface StateDelta {
+  seq: number; // Increases by exactly one per delta; a gap means a lost update
+  tick: number;
+  tiles: GameTile[];
+  players: PlayerDelta[];
+  removedPlayerIds: string[];
 }
 
+// Appended only: the wire format and saved references use indices
+export const WEAPON_TYPES = ['conventional', 'nuke', 'cluster', 'emp', 'bunker_buster'] as const;
+export type WeaponType = (typeof WEAPON_TYPES)[number];
+
 export interface Missile {
   id: string;
+  weapon: WeaponType;
   fromTileId: number;
   toTileId: number;
   playerId: string;
-  launchTime: number;
-  travelTime: number; // milliseconds for missile to reach target
+  launchTick: number;
+  travelTicks: number; // ticks for missile to reach target
   trajectory: [number, number, number][]; // 3D points along the path
 }
+
+// Match lifecycle: players gather in the lobby, a countdown runs once enough
+// have joined, everyone places their capital during the spawn phase, the
+// match plays until a victory condition fires, and the final standings stay
+// up for a while before the room resets into a fresh world.
+export const MATCH_PHASES = ['lobby', 'spawning', 'playing', 'ended'] as const;
+export type MatchPhase = (typeof MATCH_PHASES)[number];
+
+export interface VictoryConditions {
+  landShare?: number; // Share of all land tiles (0-1) one player must own
+  lastStanding: boolean; // Win when every other player has lost their territory
+  timeLimitSeconds?: number; // Highest score wins when time runs out
+}
+
+// What happens to a player whose HQ is captured or destroyed
+export const CAPITAL_LOSS_RULES = ['relocate', 'eliminate'] as const;
+export type CapitalLossRule = (typeof CAPITAL_LOSS_RULES)[number];
+
+export interface MatchSettings {
+  minPlayers: number; // Players needed before the lobby countdown starts
+  countdownSeconds: number;
+  spawnSeconds: number; // Time to pick a capital before one is picked for you
+  endedSeconds: number; // How long standings show before the reset
+  capitalLoss: CapitalLossRule;
+  victory: VictoryConditions;
+}
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  minPlayers: 1,
+  countdownSeconds: 10,
+  spawnSeconds: 20,
+  endedSeconds: 20,
+  capitalLoss: 'relocate',
+  victory: {
+    landShare: 0.6,
+    lastStanding: true,
+    timeLimitSeconds: 30 * 60
+  }
+};
+
+export interface MatchState {
+  phase: MatchPhase;
+  phaseEndsAtTick?: number; // Countdown end, spawn deadline, time limit or reset, if any
+}
+
+export const MATCH_END_REASONS = ['land_share', 'last_standing', 'time_limit', 'abandoned'] as const;
+export type MatchEndReason = (typeof MATCH_END_REASONS)[number];
+
+export interface Standing {
+  playerId: string;
+  username: string;
+  color: string;
+  territory: number; // Land tiles owned
+  gold: number;
+  population: number;
+  score: number;
+}
+
+export interface MatchResult {
+  reason: MatchEndReason;
+  winnerId?: string;
+  standings: Standing[]; // Best first
+}
+
+// Rooms. The mode picks which victory conditions apply.
+export const GAME_MODES = ['classic', 'conquest', 'last_standing', 'timed'] as const;
+export type GameMode = (typeof GAME_MODES)[number];
+
+export const GAME_MODE_VICTORY: Record<GameMode, VictoryConditions> = {
+  classic: DEFAULT_MATCH_SETTINGS.victory,
+  conquest: { landShare: 0.6, lastStanding: false },
+  last_standing: { lastStanding: true },
+  timed: { lastStanding: false, timeLimitSeconds: 15 * 60 }
+};
+
+export interface RoomSettings {
+  mode: GameMode;
+  maxPlayers: number;
+  seed?: number; // Pins the map for every match; random worlds otherwise
+  isPrivate: boolean; // Unlisted, joined through the invite code
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  mode: 'classic',
+  maxPlayers: 16,
+  isPrivate: false
+};
+
+export interface RoomSummary {
+  id: string; // Doubles as the invite code for private rooms
+  players: number;
+  maxPlayers: number;
+  phase: MatchPhase;
+  seed: number; // Seed of the world currently in play
+  mode: GameMode;
+}
@@ -0,0 +1,59 @@
+import { BUILDINGS } from "./buildings";
+import type { StructureType } from "./schema";
+import type { TerrainType } from "./world";
+
+// Gameplay rules per terrain type, shared so the client can show players what
+// a tile is worth before they fight over it.
+export interface TerrainRules {
+  claimable: boolean;
+  claimCost: number; // Soldiers spent to claim the tile while it is unowned
+  defense: number; // Multiplier on the defender's strength when attacked
+  populationCap: number; // Population the tile settles at without buildings
+  growthRate: number; // Logistic growth rate per second towards the cap
+  goldYield: number; // Multiplier on what workers living on the tile earn
+}
+
+export const TERRAIN_RULES: Record<TerrainType, TerrainRules> = {
+  water: {
+    claimable: false,
+    claimCost: 0,
+    defense: 1,
+    populationCap: 0,
+    growthRate: 0,
+    goldYield: 0,
+  },
+  // The baseline everything else is measured against
+  grass: {
+    claimable: true,
+    claimCost: 10,
+    defense: 1,
+    populationCap: 50,
+    growthRate: 0.03,
+    goldYield: 1,
+  },
+  // Cheap to grab, but barely feeds anyone
+  desert: {
+    claimable: true,
+    claimCost: 5,
+    defense: 0.9,
+    populationCap: 15,
+    growthRate: 0.015,
+    goldYield: 0.5,
+  },
+  // A fortress that costs a lot to take and gives little back
+  mountain: {
+    claimable: true,
+    claimCost: 25,
+    defense: 1.6,
+    populationCap: 25,
+    growthRate: 0.02,
+    goldYield: 0.6,
+  },
+};
+
+// Buildings add room for people on top of the terrain cap, unless an EMP has
+// knocked them out
+export function getPopulationCap(terrainType: TerrainType, structureType?: StructureType, disabled = false): number {
+  const bonus = structureType && !disabled ? BUILDINGS[structureType].effects.populationCap ?? 0 : 0;
+  return TERRAIN_RULES[terrainType].populationCap + bonus;
+}
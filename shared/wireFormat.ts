@@ -0,0 +1,151 @@
+import { ServerMessage, ServerMessageOf } from "./protocol";
+import { GameTile, STRUCTURE_TYPES } from "./schema";
+import { TERRAIN_TYPES } from "./world";
+
+// Compact binary encoding for the two bulky server messages, world snapshots
+// (`game_state`) and tick deltas (`state_delta`). Everything else, and every
+// connection that does not ask for binary, stays JSON.
+//
+// Frame layout (little endian):
+//   u8  frame kind (FRAME_SNAPSHOT | FRAME_DELTA)
+//   u32 header length, followed by the header as UTF-8 JSON: the message data
+//       minus `tiles`, plus `owners`, the table tile owner indices refer to
+//   u32 tile count, followed by one record per tile:
+//       [u32 tile id, deltas only]
+//       u16 owner (0 = unowned, otherwise index + 1 into `owners`)
+//       u16 population (rounded, saturating)
+//       u8  structure (0 = none, otherwise index + 1 into STRUCTURE_TYPES)
+//       u8  terrain (index into TERRAIN_TYPES)
+//       u8  construction (0 = none, otherwise index + 1 into STRUCTURE_TYPES)
+//       u8  radiation (0-1 scaled to 0-255, 0 = none)
+//       u8  flags (FLAG_DISABLED)
+// Snapshot tiles are written in id order, so their ids are implicit.
+
+export type WireEncoding = "json" | "binary";
+
+export type BinaryMessage = ServerMessageOf<"game_state" | "state_delta">;
+
+export function isBinaryMessage(message: ServerMessage): message is BinaryMessage {
+  return message.type === "game_state" || message.type === "state_delta";
+}
+
+const FRAME_SNAPSHOT = 1;
+const FRAME_DELTA = 2;
+const TILE_RECORD_BYTES = 9;
+const MAX_POPULATION = 0xffff;
+const MAX_RADIATION = 0xff;
+const FLAG_DISABLED = 1;
+
+export function encodeBinaryMessage(message: BinaryMessage): Uint8Array {
+  const frameKind =
+    message.type === "game_state" ? FRAME_SNAPSHOT : FRAME_DELTA;
+  const { tiles, ...rest } = message.data;
+
+  const owners: string[] = [];
+  const ownerIndex = new Map<string, number>();
+  tiles.forEach((tile) => {
+    if (tile.ownerId && !ownerIndex.has(tile.ownerId)) {
+      ownerIndex.set(tile.ownerId, owners.length);
+      owners.push(tile.ownerId);
+    }
+  });
+
+  const header = new TextEncoder().encode(JSON.stringify({ ...rest, owners }));
+  const recordBytes =
+    TILE_RECORD_BYTES + (frameKind === FRAME_DELTA ? 4 : 0);
+  const buffer = new Uint8Array(1 + 4 + header.length + 4 + tiles.length * recordBytes);
+  const view = new DataView(buffer.buffer);
+
+  let offset = 0;
+  view.setUint8(offset, frameKind);
+  offset += 1;
+  view.setUint32(offset, header.length, true);
+  offset += 4;
+  buffer.set(header, offset);
+  offset += header.length;
+  view.setUint32(offset, tiles.length, true);
+  offset += 4;
+
+  tiles.forEach((tile) => {
+    if (frameKind === FRAME_DELTA) {
+      view.setUint32(offset, tile.id, true);
+      offset += 4;
+    }
+    view.setUint16(
+      offset,
+      tile.ownerId ? ownerIndex.get(tile.ownerId)! + 1 : 0,
+      true,
+    );
+    view.setUint16(
+      offset + 2,
+      Math.min(MAX_POPULATION, Math.max(0, Math.round(tile.population))),
+      true,
+    );
+    view.setUint8(
+      offset + 4,
+      tile.structureType ? STRUCTURE_TYPES.indexOf(tile.structureType) + 1 : 0,
+    );
+    view.setUint8(offset + 5, TERRAIN_TYPES.indexOf(tile.terrainType));
+    view.setUint8(
+      offset + 6,
+      tile.construction ? STRUCTURE_TYPES.indexOf(tile.construction) + 1 : 0,
+    );
+    // Any fallout at all stays visible, however faint
+    view.setUint8(
+      offset + 7,
+      tile.radiation ? Math.max(1, Math.round(tile.radiation * MAX_RADIATION)) : 0,
+    );
+    view.setUint8(offset + 8, tile.disabled ? FLAG_DISABLED : 0);
+    offset += TILE_RECORD_BYTES;
+  });
+
+  return buffer;
+}
+
+// Decoded messages are unvalidated; run them through parseServerMessage
+export function decodeBinaryMessage(bytes: ArrayBuffer | Uint8Array): unknown {
+  const buffer = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  let offset = 0;
+  const frameKind = view.getUint8(offset);
+  offset += 1;
+  const headerLength = view.getUint32(offset, true);
+  offset += 4;
+  const { owners, ...data } = JSON.parse(
+    new TextDecoder().decode(buffer.subarray(offset, offset + headerLength)),
+  ) as { owners: string[]; [key: string]: unknown };
+  offset += headerLength;
+  const tileCount = view.getUint32(offset, true);
+  offset += 4;
+
+  const tiles: GameTile[] = [];
+  for (let i = 0; i < tileCount; i++) {
+    let id = i;
+    if (frameKind === FRAME_DELTA) {
+      id = view.getUint32(offset, true);
+      offset += 4;
+    }
+    const owner = view.getUint16(offset, true);
+    const structure = view.getUint8(offset + 4);
+    const construction = view.getUint8(offset + 6);
+    const radiation = view.getUint8(offset + 7);
+    const flags = view.getUint8(offset + 8);
+    tiles.push({
+      id,
+      ownerId: owner > 0 ? owners[owner - 1] : undefined,
+      population: view.getUint16(offset + 2, true),
+      structureType: structure > 0 ? STRUCTURE_TYPES[structure - 1] : undefined,
+      terrainType: TERRAIN_TYPES[view.getUint8(offset + 5)],
+      construction: construction > 0 ? STRUCTURE_TYPES[construction - 1] : undefined,
+      radiation: radiation > 0 ? radiation / MAX_RADIATION : undefined,
+      disabled: flags & FLAG_DISABLED ? true : undefined,
+    });
+    offset += TILE_RECORD_BYTES;
+  }
+
+  return {
+    type: frameKind === FRAME_SNAPSHOT ? "game_state" : "state_delta",
+    data: { ...data, tiles },
+  };
+}
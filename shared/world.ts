@@ -0,0 +1,413 @@
+import { PerlinNoise } from "./noise";
+import { createRng } from "./random";
+
+// Headless world model shared by the server simulation and the client renderer.
+// Tiles are the dual of a subdivided icosahedron: every primal vertex becomes
+// a hexagonal (or, at the 12 original corners, pentagonal) tile.
+
+export const TERRAIN_TYPES = ["water", "grass", "desert", "mountain"] as const;
+export type TerrainType = (typeof TERRAIN_TYPES)[number];
+
+export type Vec3 = [number, number, number];
+
+export interface WorldModel {
+  seed: number;
+  tileCount: number;
+  centers: Float32Array; // xyz per tile on the unit sphere
+  lat: Float32Array; // degrees
+  lon: Float32Array; // degrees
+  terrain: Uint8Array; // index into TERRAIN_TYPES
+  neighborOffsets: Uint32Array; // tileCount + 1 offsets into neighbors
+  neighbors: Uint32Array;
+  corners: Float32Array; // xyz per polygon corner (shared between tiles)
+  cornerOffsets: Uint32Array; // tileCount + 1 offsets into cornerIndices
+  cornerIndices: Uint32Array; // corner ids in winding order per tile
+}
+
+const SUBDIVISION_FREQUENCY = 64;
+
+// Per-seed terrain thresholds, so seeds differ in more than continent shape
+interface TerrainParams {
+  seaLevel: number; // Normalized elevation below which tiles are water
+  mountainThreshold: number; // Normalized land height above which tiles are mountains
+}
+
+export function generateWorld(seed: number): WorldModel {
+  const { vertices, faces } = subdivideIcosahedron(SUBDIVISION_FREQUENCY);
+  const rng = createRng(seed);
+  const noise = new PerlinNoise(rng);
+  const params: TerrainParams = {
+    seaLevel: 0.53 + rng() * 0.04,
+    mountainThreshold: 0.2 + rng() * 0.15,
+  };
+
+  // Dual vertices: one per primal face, at its normalized centroid
+  const corners = new Float32Array(faces.length * 3);
+  const vertexToFaces: number[][] = vertices.map(() => []);
+  faces.forEach((face, faceIndex) => {
+    const centroid: Vec3 = [0, 0, 0];
+    face.forEach((vertexIndex) => {
+      const v = vertices[vertexIndex];
+      centroid[0] += v[0];
+      centroid[1] += v[1];
+      centroid[2] += v[2];
+      vertexToFaces[vertexIndex].push(faceIndex);
+    });
+    normalize(centroid);
+    corners.set(centroid, faceIndex * 3);
+  });
+
+  // Tiles from primal vertices, skipping any that are not fully surrounded
+  const tileVertices: number[] = [];
+  const vertexToTile = new Int32Array(vertices.length).fill(-1);
+  vertexToFaces.forEach((adjacentFaces, vertexIndex) => {
+    if (adjacentFaces.length < 3) return;
+    vertexToTile[vertexIndex] = tileVertices.length;
+    tileVertices.push(vertexIndex);
+  });
+
+  const tileCount = tileVertices.length;
+  const centers = new Float32Array(tileCount * 3);
+  const lat = new Float32Array(tileCount);
+  const lon = new Float32Array(tileCount);
+  const terrain = new Uint8Array(tileCount);
+  const neighborOffsets = new Uint32Array(tileCount + 1);
+  const cornerOffsets = new Uint32Array(tileCount + 1);
+  const neighborList: number[] = [];
+  const cornerList: number[] = [];
+
+  tileVertices.forEach((vertexIndex, tileId) => {
+    const sortedFaces = sortFacesAroundVertex(
+      vertices[vertexIndex],
+      vertexToFaces[vertexIndex],
+      corners,
+    );
+
+    const center: Vec3 = [0, 0, 0];
+    sortedFaces.forEach((faceIndex) => {
+      cornerList.push(faceIndex);
+      center[0] += corners[faceIndex * 3];
+      center[1] += corners[faceIndex * 3 + 1];
+      center[2] += corners[faceIndex * 3 + 2];
+    });
+    normalize(center);
+    centers.set(center, tileId * 3);
+
+    // Every primal edge out of this vertex is a shared tile edge, so the
+    // other corners of the surrounding faces are exactly the neighbours
+    const neighborStart = neighborList.length;
+    sortedFaces.forEach((faceIndex) => {
+      faces[faceIndex].forEach((otherVertex) => {
+        const otherTile = vertexToTile[otherVertex];
+        if (
+          otherVertex !== vertexIndex &&
+          otherTile >= 0 &&
+          neighborList.indexOf(otherTile, neighborStart) === -1
+        ) {
+          neighborList.push(otherTile);
+        }
+      });
+    });
+
+    lat[tileId] = (Math.asin(center[1]) * 180) / Math.PI;
+    lon[tileId] = (Math.atan2(center[2], center[0]) * 180) / Math.PI;
+    terrain[tileId] = TERRAIN_TYPES.indexOf(
+      generateTerrainType(noise, params, lat[tileId], center),
+    );
+
+    neighborOffsets[tileId + 1] = neighborList.length;
+    cornerOffsets[tileId + 1] = cornerList.length;
+  });
+
+  const world: WorldModel = {
+    seed,
+    tileCount,
+    centers,
+    lat,
+    lon,
+    terrain,
+    neighborOffsets,
+    neighbors: Uint32Array.from(neighborList),
+    corners,
+    cornerOffsets,
+    cornerIndices: Uint32Array.from(cornerList),
+  };
+
+  logWorldStats(world);
+  return world;
+}
+
+export function getNeighbors(world: WorldModel, tileId: number): Uint32Array {
+  return world.neighbors.subarray(
+    world.neighborOffsets[tileId],
+    world.neighborOffsets[tileId + 1],
+  );
+}
+
+export function getTileCenter(world: WorldModel, tileId: number): Vec3 {
+  return [
+    world.centers[tileId * 3],
+    world.centers[tileId * 3 + 1],
+    world.centers[tileId * 3 + 2],
+  ];
+}
+
+export function getTerrainType(world: WorldModel, tileId: number): TerrainType {
+  return TERRAIN_TYPES[world.terrain[tileId]];
+}
+
+// Great-circle distance between two tile centres, in radians
+export function getGreatCircleDistance(
+  world: WorldModel,
+  a: number,
+  b: number,
+): number {
+  const { centers } = world;
+  const dot =
+    centers[a * 3] * centers[b * 3] +
+    centers[a * 3 + 1] * centers[b * 3 + 1] +
+    centers[a * 3 + 2] * centers[b * 3 + 2];
+  return Math.acos(Math.min(1, Math.max(-1, dot)));
+}
+
+// Typical great-circle distance between neighbouring tile centres, so rules
+// can be written in tiles. Treats every tile as a hexagon of equal area.
+export function getTileSpacing(world: WorldModel): number {
+  return Math.sqrt((8 * Math.PI) / (Math.sqrt(3) * world.tileCount));
+}
+
+function subdivideIcosahedron(frequency: number): {
+  vertices: Vec3[];
+  faces: number[][];
+} {
+  // Step 1: Create base icosahedron
+  const phi = (1 + Math.sqrt(5)) / 2; // Golden ratio
+  const baseVertices = (
+    [
+      [-1, phi, 0],
+      [1, phi, 0],
+      [-1, -phi, 0],
+      [1, -phi, 0],
+      [0, -1, phi],
+      [0, 1, phi],
+      [0, -1, -phi],
+      [0, 1, -phi],
+      [phi, 0, -1],
+      [phi, 0, 1],
+      [-phi, 0, -1],
+      [-phi, 0, 1],
+    ] as Vec3[]
+  ).map(normalize);
+
+  const baseFaces = [
+    [0, 11, 5],
+    [0, 5, 1],
+    [0, 1, 7],
+    [0, 7, 10],
+    [0, 10, 11],
+    [1, 5, 9],
+    [5, 11, 4],
+    [11, 10, 2],
+    [10, 7, 6],
+    [7, 1, 8],
+    [3, 9, 4],
+    [3, 4, 2],
+    [3, 2, 6],
+    [3, 6, 8],
+    [3, 8, 9],
+    [4, 9, 5],
+    [2, 4, 11],
+    [6, 2, 10],
+    [8, 6, 7],
+    [9, 8, 1],
+  ];
+
+  // Step 2: Subdivide each face using barycentric coordinates
+  const vertices: Vec3[] = [];
+  const faces: number[][] = [];
+  const vertexMap = new Map<string, number>(); // To avoid duplicate vertices
+
+  for (const face of baseFaces) {
+    const [a, b, c] = face.map((i) => baseVertices[i]);
+    const faceIndices: number[] = [];
+
+    for (let i = 0; i <= frequency; i++) {
+      for (let j = 0; j <= frequency - i; j++) {
+        const u = i / frequency;
+        const v = j / frequency;
+        const w = 1 - u - v;
+        const point = normalize([
+          a[0] * w + b[0] * u + c[0] * v,
+          a[1] * w + b[1] * u + c[1] * v,
+          a[2] * w + b[2] * u + c[2] * v,
+        ]);
+        const key = `${point[0].toFixed(8)},${point[1].toFixed(8)},${point[2].toFixed(8)}`;
+        if (!vertexMap.has(key)) {
+          vertexMap.set(key, vertices.length);
+          vertices.push(point);
+        }
+        faceIndices.push(vertexMap.get(key)!);
+      }
+    }
+
+    // Create triangular faces from the grid
+    let idx = 0;
+    for (let i = 0; i < frequency; i++) {
+      const rowLength = frequency - i + 1;
+      for (let j = 0; j < frequency - i; j++) {
+        const p1 = faceIndices[idx];
+        const p2 = faceIndices[idx + 1];
+        const p3 = faceIndices[idx + rowLength];
+
+        faces.push([p1, p2, p3]);
+
+        // Add second triangle if not on edge
+        if (j < frequency - i - 1) {
+          const p4 = faceIndices[idx + rowLength + 1];
+          faces.push([p2, p4, p3]);
+        }
+
+        idx++;
+      }
+      idx++; // Skip the last vertex of each row
+    }
+  }
+
+  return { vertices, faces };
+}
+
+function sortFacesAroundVertex(
+  center: Vec3,
+  faceIndices: number[],
+  corners: Float32Array,
+): number[] {
+  // Tangent plane basis around the vertex normal
+  const up: Vec3 = Math.abs(center[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+  const u = normalize(cross(center, up));
+  const v = cross(center, u);
+
+  return faceIndices
+    .map((faceIndex) => {
+      const dx = corners[faceIndex * 3] - center[0];
+      const dy = corners[faceIndex * 3 + 1] - center[1];
+      const dz = corners[faceIndex * 3 + 2] - center[2];
+      const x = dx * u[0] + dy * u[1] + dz * u[2];
+      const y = dx * v[0] + dy * v[1] + dz * v[2];
+      return { faceIndex, angle: Math.atan2(y, x) };
+    })
+    .sort((a, b) => a.angle - b.angle)
+    .map((entry) => entry.faceIndex);
+}
+
+function generateTerrainType(
+  noise: PerlinNoise,
+  params: TerrainParams,
+  lat: number,
+  center: Vec3,
+): TerrainType {
+  // Use fractal Brownian motion (fBm) with Perlin noise for natural continent shapes
+  const continentScale = 1.5; // Lower scale for larger continents
+  const elevation = noise.fbm(
+    center[0] * continentScale,
+    center[1] * continentScale,
+    center[2] * continentScale,
+    6,
+    0.5,
+  );
+  const elevNorm = (elevation + 1) / 2; // Normalize to 0-1
+
+  // Sea level threshold to aim for ~70% water
+  const { seaLevel, mountainThreshold } = params;
+  if (elevNorm < seaLevel) {
+    return "water";
+  }
+
+  // Normalize land height
+  const landHeight = (elevNorm - seaLevel) / (1 - seaLevel);
+
+  // Mountains at higher elevations
+  if (landHeight > mountainThreshold) {
+    return "mountain";
+  }
+
+  // Moisture for biomes using another fBm layer
+  const moistureScale = 3.0;
+  const moistureOffset = 1000; // Offset to differentiate from elevation noise
+  const moisture =
+    (noise.fbm(
+      center[0] * moistureScale + moistureOffset,
+      center[1] * moistureScale,
+      center[2] * moistureScale,
+      4,
+      0.5,
+    ) +
+      1) /
+    2;
+
+  // Climate zones based on latitude
+  const absLat = Math.abs(lat);
+  const equatorialZone = absLat < 23.5; // Tropics
+  const polarZone = absLat >= 66.5;
+
+  // Deserts more likely in subtropical zones (~15-40°), especially north of equator
+  let desertThreshold = 0.4;
+  const isSubtropical = absLat > 15 && absLat < 40;
+  if (isSubtropical) {
+    desertThreshold -= 0.2; // Higher chance in dry subtropical belts
+  }
+  if (lat > 0 && isSubtropical) {
+    desertThreshold += 0.1; // Bias more deserts north of equator (higher threshold = more deserts)
+  }
+
+  // Adjust for climate zones
+  if (equatorialZone) {
+    // Tropics: generally wetter, fewer deserts
+    desertThreshold += 0.1;
+  } else if (polarZone) {
+    // Polar: tundra (grass) or mountains, rare deserts
+    desertThreshold += 0.3;
+  }
+
+  // Biome decision
+  if (moisture < desertThreshold) {
+    return "desert";
+  }
+  return "grass";
+}
+
+function logWorldStats(world: WorldModel) {
+  const counts = TERRAIN_TYPES.map(() => 0);
+  world.terrain.forEach((terrain) => counts[terrain]++);
+  let pentagons = 0;
+  for (let tileId = 0; tileId < world.tileCount; tileId++) {
+    if (world.cornerOffsets[tileId + 1] - world.cornerOffsets[tileId] === 5) {
+      pentagons++;
+    }
+  }
+
+  console.log(
+    `Generated world ${world.seed}: ${world.tileCount} tiles (${pentagons} pentagons, ${world.tileCount - pentagons} hexagons)`,
+  );
+  console.log(
+    `Terrain: ${TERRAIN_TYPES.map(
+      (type, i) =>
+        `${counts[i]} ${type} (${((counts[i] / world.tileCount) * 100).toFixed(1)}%)`,
+    ).join(", ")}`,
+  );
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1;
+  v[0] /= length;
+  v[1] /= length;
+  v[2] /= length;
+  return v;
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}